@@ -7,11 +7,16 @@ import { env } from "./config/env";
 import { connectDb } from "./config/db";
 
 import { healthRouter } from "./routes/health";
+import { cronRouter } from "./routes/cron";
 import { authRouter } from "./routes/auth";
+import { twoFactorRouter } from "./routes/twoFactor";
 import { teachersRouter } from "./routes/teachers";
 import { sessionsRouter } from "./routes/sessions";
 import { bookingsRouter } from "./routes/bookings";
+import { waitlistRouter } from "./routes/waitlist";
 import { creditsRouter } from "./routes/credits";
+import { paymentsRouter } from "./routes/payments";
+import { subscriptionsRouter } from "./routes/subscriptions";
 import { integrationsRouter } from "./routes/integrations";
 import { teacherRouter } from "./routes/teacher";
 import { studentRouter } from "./routes/student";
@@ -20,12 +25,14 @@ import { forumRouter } from "./routes/forum";
 import { adminForumRouter } from "./routes/adminForum";
 import { adminRouter } from "./routes/admin";
 import { notificationsRouter } from "./routes/notifications";
+import { InsufficientCreditsError } from "./services/credits";
 
 export async function createApp() {
   await connectDb();
 
   const app = express();
   app.disable("x-powered-by");
+  app.set("trust proxy", env.TRUST_PROXY);
 
   app.use(helmet());
   app.use(
@@ -34,15 +41,27 @@ export async function createApp() {
       credentials: true,
     })
   );
-  app.use(express.json({ limit: "1mb" }));
+  app.use(
+    express.json({
+      limit: "1mb",
+      verify: (req, _res, buf) => {
+        (req as express.Request).rawBody = buf;
+      },
+    })
+  );
   app.use(morgan("dev"));
 
   app.use("/health", healthRouter);
+  app.use("/cron", cronRouter);
+  app.use("/auth/2fa", twoFactorRouter);
   app.use("/auth", authRouter);
   app.use("/teachers", teachersRouter);
   app.use("/sessions", sessionsRouter);
   app.use("/bookings", bookingsRouter);
+  app.use("/waitlist", waitlistRouter);
   app.use("/credits", creditsRouter);
+  app.use("/payments", paymentsRouter);
+  app.use("/subscriptions", subscriptionsRouter);
   app.use("/integrations", integrationsRouter);
   app.use("/teacher", teacherRouter);
   app.use("/student", studentRouter);
@@ -58,6 +77,10 @@ export async function createApp() {
 
   // Error handler (prevents crashes from async route errors)
   app.use((err: unknown, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    // A concurrent spend got there first (the wallet guard refused to go negative)
+    if (err instanceof InsufficientCreditsError) {
+      return res.status(402).json({ error: "Not enough credits", balance: err.balance, required: err.required });
+    }
     // eslint-disable-next-line no-console
     console.error(err);
     res.status(500).json({ error: "Internal Server Error" });
@@ -1,5 +1,6 @@
 import mongoose from "mongoose";
 import { env } from "./env";
+import { dropLegacyIndexes } from "./legacyIndexes";
 
 let connectPromise: Promise<typeof mongoose> | null = null;
 
@@ -9,10 +10,16 @@ export async function connectDb() {
   if (mongoose.connection.readyState === 1) return;
 
   if (!connectPromise) {
-    connectPromise = mongoose.connect(env.MONGO_URI).catch((err) => {
-      connectPromise = null;
-      throw err;
-    });
+    connectPromise = mongoose
+      .connect(env.MONGO_URI)
+      .then(async (m) => {
+        await dropLegacyIndexes();
+        return m;
+      })
+      .catch((err) => {
+        connectPromise = null;
+        throw err;
+      });
   }
 
   await connectPromise;
@@ -28,6 +28,22 @@ const RawEnvSchema = z.object({
   // EMAIL_PASS: z.string().optional(),
   // EMAIL_FROM: z.string().optional(),
   EMAIL_CODE_PEPPER: z.string().min(8).default("change_me_pepper"),
+  // --- Auth sessions ---
+  // Access tokens (JWT) are short-lived; clients renew them with the refresh token from login.
+  ACCESS_TOKEN_TTL_MINUTES: z.coerce.number().int().positive().default(15),
+  // A session (refresh token) ends after this long without being used.
+  REFRESH_TOKEN_TTL_DAYS: z.coerce.number().positive().default(30),
+  // Two-factor authentication: issuer shown in authenticator apps, and how long the second login step may take.
+  TOTP_ISSUER: z.string().trim().min(1).default("Mars Learning"),
+  TWO_FACTOR_CHALLENGE_MINUTES: z.coerce.number().int().positive().default(5),
+  // LOGIN_LOCKOUT_THRESHOLD failed sign-ins for an email within LOGIN_LOCKOUT_WINDOW_MINUTES lock it for LOGIN_LOCKOUT_MINUTES.
+  LOGIN_LOCKOUT_THRESHOLD: z.coerce.number().int().min(1).default(5),
+  LOGIN_LOCKOUT_WINDOW_MINUTES: z.coerce.number().int().positive().default(15),
+  LOGIN_LOCKOUT_MINUTES: z.coerce.number().int().positive().default(15),
+  // Admin accounts are only created from invites issued by another admin; an invite can be used once within this.
+  ADMIN_INVITE_TTL_HOURS: z.coerce.number().positive().default(72),
+  // Express "trust proxy" (e.g. 1 behind one reverse proxy) so rate limits see the client IP; "false" when exposed directly.
+  TRUST_PROXY: z.string().trim().default("false"),
   // --- Google Calendar integration (optional) ---
   GOOGLE_CLIENT_ID: z.string().optional(),
   GOOGLE_CLIENT_SECRET: z.string().optional(),
@@ -48,6 +64,61 @@ const RawEnvSchema = z.object({
   CLOUDINARY_CLOUD_NAME: z.string().optional(),
   CLOUDINARY_API_KEY: z.string().optional(),
   CLOUDINARY_API_SECRET: z.string().optional(),
+
+  // --- Background jobs ---
+  JOBS_ENABLED: z.enum(["true", "false"]).default("true"),
+  JOBS_INTERVAL_SECONDS: z.coerce.number().int().positive().default(60),
+  // Serverless (Vercel): GET /cron/tick with `Authorization: Bearer <CRON_SECRET>` runs the jobs once. Unset = disabled.
+  CRON_SECRET: z.string().trim().optional(),
+  // Bookings are settled (completed / no_show) this long after the lesson ends.
+  LESSON_AUTO_COMPLETE_MINUTES: z.coerce.number().int().min(0).default(30),
+  // Without attendance data the teacher is asked to confirm; after this long the lesson is completed anyway.
+  LESSON_CONFIRMATION_TIMEOUT_HOURS: z.coerce.number().positive().default(48),
+  // How long a waitlisted student gets an exclusive hold on a freed seat.
+  WAITLIST_HOLD_MINUTES: z.coerce.number().int().positive().default(30),
+
+  // --- Credit sharing between student accounts ---
+  // Max credits a student can send in a rolling 24h window.
+  CREDIT_SHARE_DAILY_LIMIT: z.coerce.number().int().positive().default(50),
+  // How long the recipient has to accept a share.
+  CREDIT_SHARE_ACCEPT_HOURS: z.coerce.number().positive().default(72),
+  // How long after acceptance the sender can reverse a share.
+  CREDIT_SHARE_REVERSAL_HOURS: z.coerce.number().min(0).default(24),
+
+  // --- Credit expiry ---
+  // Credits expire this many months after they were bought/granted (0 = never). Packages can override it.
+  CREDIT_EXPIRY_MONTHS: z.coerce.number().int().min(0).default(12),
+  // Students are notified this many days before credits expire.
+  CREDIT_EXPIRY_WARNING_DAYS: z.coerce.number().int().min(1).default(14),
+  // Credits a student gets when someone they referred completes a first lesson.
+  REFERRAL_REWARD_CREDITS: z.coerce.number().int().min(0).default(5),
+
+  // --- Teacher payouts ---
+  // Platform share of each completed lesson's price.
+  TEACHER_COMMISSION_PERCENT: z.coerce.number().min(0).max(100).default(20),
+  // What one earned credit is paid out as, in PAYOUT_CURRENCY cents.
+  TEACHER_PAYOUT_CENTS_PER_CREDIT: z.coerce.number().int().min(0).default(1000),
+  PAYOUT_CURRENCY: z.string().trim().toLowerCase().length(3).default("usd"),
+
+  // --- Subscriptions ---
+  // A failed renewal is retried after this long, up to SUBSCRIPTION_MAX_RENEWAL_ATTEMPTS times before cancelling.
+  SUBSCRIPTION_RETRY_HOURS: z.coerce.number().positive().default(24),
+  SUBSCRIPTION_MAX_RENEWAL_ATTEMPTS: z.coerce.number().int().min(1).default(3),
+
+  // --- Idempotency ---
+  // How long responses to requests with an Idempotency-Key header are kept for replay.
+  IDEMPOTENCY_KEY_TTL_HOURS: z.coerce.number().positive().default(24),
+
+  // --- Payments ---
+  // Unset = payments disabled. "fake" (offline, free checkouts) must be chosen explicitly and is refused in production.
+  PAYMENT_PROVIDER: z.string().trim().optional(),
+  // Webhook signing secret; required once a provider is set
+  PAYMENT_WEBHOOK_SECRET: z.string().trim().optional(),
+  // Fake provider: outcome of checkouts (manual = wait for POST /payments/:id/fake-complete) and webhook delay.
+  FAKE_PAYMENT_OUTCOME: z.enum(["success", "failure", "manual"]).default("success"),
+  FAKE_PAYMENT_WEBHOOK_DELAY_SECONDS: z.coerce.number().min(0).default(2),
+  // Package checkouts not paid within this are failed and their promo code use is given back.
+  PAYMENT_CHECKOUT_EXPIRY_HOURS: z.coerce.number().positive().default(24),
 });
 
 export type Env = {
@@ -61,6 +132,15 @@ export type Env = {
   EMAIL_PASS?: string;
   EMAIL_FROM?: string;
   EMAIL_CODE_PEPPER: string;
+  ACCESS_TOKEN_TTL_MINUTES: number;
+  REFRESH_TOKEN_TTL_DAYS: number;
+  TOTP_ISSUER: string;
+  TWO_FACTOR_CHALLENGE_MINUTES: number;
+  LOGIN_LOCKOUT_THRESHOLD: number;
+  LOGIN_LOCKOUT_WINDOW_MINUTES: number;
+  LOGIN_LOCKOUT_MINUTES: number;
+  ADMIN_INVITE_TTL_HOURS: number;
+  TRUST_PROXY: boolean | number | string;
   GOOGLE_CLIENT_ID?: string;
   GOOGLE_CLIENT_SECRET?: string;
   GOOGLE_REDIRECT_URI?: string;
@@ -72,6 +152,29 @@ export type Env = {
   CLOUDINARY_CLOUD_NAME?: string;
   CLOUDINARY_API_KEY?: string;
   CLOUDINARY_API_SECRET?: string;
+  JOBS_ENABLED: boolean;
+  JOBS_INTERVAL_SECONDS: number;
+  CRON_SECRET?: string;
+  LESSON_AUTO_COMPLETE_MINUTES: number;
+  LESSON_CONFIRMATION_TIMEOUT_HOURS: number;
+  WAITLIST_HOLD_MINUTES: number;
+  CREDIT_SHARE_DAILY_LIMIT: number;
+  CREDIT_SHARE_ACCEPT_HOURS: number;
+  CREDIT_SHARE_REVERSAL_HOURS: number;
+  CREDIT_EXPIRY_MONTHS: number;
+  CREDIT_EXPIRY_WARNING_DAYS: number;
+  REFERRAL_REWARD_CREDITS: number;
+  IDEMPOTENCY_KEY_TTL_HOURS: number;
+  TEACHER_COMMISSION_PERCENT: number;
+  TEACHER_PAYOUT_CENTS_PER_CREDIT: number;
+  PAYOUT_CURRENCY: string;
+  SUBSCRIPTION_RETRY_HOURS: number;
+  SUBSCRIPTION_MAX_RENEWAL_ATTEMPTS: number;
+  PAYMENT_PROVIDER?: string;
+  PAYMENT_WEBHOOK_SECRET?: string;
+  FAKE_PAYMENT_OUTCOME: "success" | "failure" | "manual";
+  FAKE_PAYMENT_WEBHOOK_DELAY_SECONDS: number;
+  PAYMENT_CHECKOUT_EXPIRY_HOURS: number;
 };
 
 const raw = RawEnvSchema.parse(process.env);
@@ -89,6 +192,21 @@ if (jwtSecret.length < 16) {
   jwtSecret = "dev_jwt_secret_change_me_123456";
 }
 
+const paymentProvider = raw.PAYMENT_PROVIDER || undefined;
+if (paymentProvider === "fake" && process.env.NODE_ENV === "production") {
+  throw new Error("PAYMENT_PROVIDER=fake grants credits without payment and cannot be used with NODE_ENV=production");
+}
+if (paymentProvider && !raw.PAYMENT_WEBHOOK_SECRET) {
+  throw new Error("PAYMENT_WEBHOOK_SECRET is required when PAYMENT_PROVIDER is set");
+}
+
+// "true" / "false", a hop count, or a list of addresses/subnets (passed to Express as-is)
+function parseTrustProxy(value: string): boolean | number | string {
+  if (value === "true" || value === "false") return value === "true";
+  if (/^\d+$/.test(value)) return Number(value);
+  return value;
+}
+
 export const env: Env = {
   PORT: raw.PORT,
   MONGO_URI: mongoUri,
@@ -100,6 +218,15 @@ export const env: Env = {
   EMAIL_PASS: raw.EMAIL_PASS ?? raw.EMAIL_PASS,
   EMAIL_FROM: raw.EMAIL_FROM ?? raw.EMAIL_FROM,
   EMAIL_CODE_PEPPER: raw.EMAIL_CODE_PEPPER,
+  ACCESS_TOKEN_TTL_MINUTES: raw.ACCESS_TOKEN_TTL_MINUTES,
+  REFRESH_TOKEN_TTL_DAYS: raw.REFRESH_TOKEN_TTL_DAYS,
+  TOTP_ISSUER: raw.TOTP_ISSUER,
+  TWO_FACTOR_CHALLENGE_MINUTES: raw.TWO_FACTOR_CHALLENGE_MINUTES,
+  LOGIN_LOCKOUT_THRESHOLD: raw.LOGIN_LOCKOUT_THRESHOLD,
+  LOGIN_LOCKOUT_WINDOW_MINUTES: raw.LOGIN_LOCKOUT_WINDOW_MINUTES,
+  LOGIN_LOCKOUT_MINUTES: raw.LOGIN_LOCKOUT_MINUTES,
+  ADMIN_INVITE_TTL_HOURS: raw.ADMIN_INVITE_TTL_HOURS,
+  TRUST_PROXY: parseTrustProxy(raw.TRUST_PROXY),
   GOOGLE_CLIENT_ID: raw.GOOGLE_CLIENT_ID,
   GOOGLE_CLIENT_SECRET: raw.GOOGLE_CLIENT_SECRET,
   GOOGLE_REDIRECT_URI: raw.GOOGLE_REDIRECT_URI,
@@ -111,5 +238,28 @@ export const env: Env = {
   CLOUDINARY_CLOUD_NAME: raw.CLOUDINARY_CLOUD_NAME,
   CLOUDINARY_API_KEY: raw.CLOUDINARY_API_KEY,
   CLOUDINARY_API_SECRET: raw.CLOUDINARY_API_SECRET,
+  JOBS_ENABLED: raw.JOBS_ENABLED === "true",
+  JOBS_INTERVAL_SECONDS: raw.JOBS_INTERVAL_SECONDS,
+  CRON_SECRET: raw.CRON_SECRET || undefined,
+  LESSON_AUTO_COMPLETE_MINUTES: raw.LESSON_AUTO_COMPLETE_MINUTES,
+  LESSON_CONFIRMATION_TIMEOUT_HOURS: raw.LESSON_CONFIRMATION_TIMEOUT_HOURS,
+  WAITLIST_HOLD_MINUTES: raw.WAITLIST_HOLD_MINUTES,
+  CREDIT_SHARE_DAILY_LIMIT: raw.CREDIT_SHARE_DAILY_LIMIT,
+  CREDIT_SHARE_ACCEPT_HOURS: raw.CREDIT_SHARE_ACCEPT_HOURS,
+  CREDIT_SHARE_REVERSAL_HOURS: raw.CREDIT_SHARE_REVERSAL_HOURS,
+  CREDIT_EXPIRY_MONTHS: raw.CREDIT_EXPIRY_MONTHS,
+  CREDIT_EXPIRY_WARNING_DAYS: raw.CREDIT_EXPIRY_WARNING_DAYS,
+  REFERRAL_REWARD_CREDITS: raw.REFERRAL_REWARD_CREDITS,
+  IDEMPOTENCY_KEY_TTL_HOURS: raw.IDEMPOTENCY_KEY_TTL_HOURS,
+  TEACHER_COMMISSION_PERCENT: raw.TEACHER_COMMISSION_PERCENT,
+  TEACHER_PAYOUT_CENTS_PER_CREDIT: raw.TEACHER_PAYOUT_CENTS_PER_CREDIT,
+  PAYOUT_CURRENCY: raw.PAYOUT_CURRENCY,
+  SUBSCRIPTION_RETRY_HOURS: raw.SUBSCRIPTION_RETRY_HOURS,
+  SUBSCRIPTION_MAX_RENEWAL_ATTEMPTS: raw.SUBSCRIPTION_MAX_RENEWAL_ATTEMPTS,
+  PAYMENT_PROVIDER: paymentProvider,
+  PAYMENT_WEBHOOK_SECRET: raw.PAYMENT_WEBHOOK_SECRET || undefined,
+  FAKE_PAYMENT_OUTCOME: raw.FAKE_PAYMENT_OUTCOME,
+  FAKE_PAYMENT_WEBHOOK_DELAY_SECONDS: raw.FAKE_PAYMENT_WEBHOOK_DELAY_SECONDS,
+  PAYMENT_CHECKOUT_EXPIRY_HOURS: raw.PAYMENT_CHECKOUT_EXPIRY_HOURS,
 };
 
@@ -0,0 +1,30 @@
+import mongoose from "mongoose";
+
+// Indexes earlier versions created that the schemas no longer declare. Mongoose only creates indexes,
+// it never drops them, and these would still enforce their old uniqueness.
+const LEGACY_INDEXES: { collection: string; name: string; reason: string }[] = [
+  // Replaced by the partial unique { sessionId, studentUserId } (group classes, rebooking a cancelled seat)
+  { collection: "bookings", name: "sessionId_1", reason: "one booking per session" },
+  // Replaced by the unique { userId, purpose } (a reset code next to a verification code)
+  { collection: "emailverificationcodes", name: "userId_1", reason: "one email code per user" },
+];
+
+/** Drop the legacy indexes that still exist (run once per process, right after connecting). */
+export async function dropLegacyIndexes(): Promise<void> {
+  const db = mongoose.connection.db;
+  if (!db) return;
+  for (const { collection, name, reason } of LEGACY_INDEXES) {
+    try {
+      const indexes = await db.collection(collection).indexes();
+      if (!indexes.some((i) => i.name === name)) continue;
+      await db.collection(collection).dropIndex(name);
+      // eslint-disable-next-line no-console
+      console.log(`[db] dropped legacy index ${collection}.${name} (${reason})`);
+    } catch (err: any) {
+      // Missing collection (fresh database) or index dropped concurrently by another instance
+      if (err?.codeName === "NamespaceNotFound" || err?.codeName === "IndexNotFound") continue;
+      // eslint-disable-next-line no-console
+      console.error(`[db] could not drop legacy index ${collection}.${name}`, err);
+    }
+  }
+}
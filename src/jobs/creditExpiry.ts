@@ -0,0 +1,65 @@
+import mongoose, { Types } from "mongoose";
+import { env } from "../config/env";
+import { CreditLotModel } from "../models/CreditLot";
+import { expireLot } from "../services/credits";
+import { persistAndNotify } from "../ws/emit";
+
+const BATCH_SIZE = 200;
+
+type ExpiringLot = { _id: Types.ObjectId; userId: Types.ObjectId; remaining: number; expiresAt: Date };
+
+/**
+ * Write `expire` ledger entries for credit lots past their expiry date, and send a `credits_expiring`
+ * notification (once per lot) when unused credits will expire within CREDIT_EXPIRY_WARNING_DAYS.
+ */
+export async function expireCredits(now: Date): Promise<void> {
+  const due = (await CreditLotModel.find({ remaining: { $gt: 0 }, expiresAt: { $ne: null, $lte: now } })
+    .select("_id")
+    .limit(BATCH_SIZE)
+    .lean()) as { _id: Types.ObjectId }[];
+
+  for (const { _id } of due) {
+    const mongoSession = await mongoose.startSession();
+    try {
+      await mongoSession.withTransaction(async () => {
+        const lot = await CreditLotModel.findOne({ _id, remaining: { $gt: 0 } }).session(mongoSession);
+        if (lot) await expireLot(lot, mongoSession, now);
+      });
+    } catch (err) {
+      // One broken lot (e.g. wallet and lots out of sync) must not hold up the others or the warnings
+      // eslint-disable-next-line no-console
+      console.error("[credits] could not expire lot", { lotId: String(_id), err });
+    } finally {
+      mongoSession.endSession();
+    }
+  }
+
+  const warnUntil = new Date(now.getTime() + env.CREDIT_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000);
+  const soon = (await CreditLotModel.find({
+    remaining: { $gt: 0 },
+    expiresAt: { $gt: now, $lte: warnUntil },
+    expiryNotifiedAt: null,
+  })
+    .select("userId remaining expiresAt")
+    .limit(BATCH_SIZE)
+    .lean()) as unknown as ExpiringLot[];
+
+  const byUser = new Map<string, ExpiringLot[]>();
+  for (const lot of soon) {
+    const key = String(lot.userId);
+    byUser.set(key, [...(byUser.get(key) ?? []), lot]);
+  }
+
+  for (const [userId, lots] of byUser) {
+    // Claim the lots so only one instance sends the warning.
+    const claimed = await CreditLotModel.updateMany(
+      { _id: { $in: lots.map((l) => l._id) }, expiryNotifiedAt: null },
+      { $set: { expiryNotifiedAt: now } }
+    );
+    if (claimed.modifiedCount === 0) continue;
+    await persistAndNotify([userId], "credits_expiring", {
+      credits: lots.reduce((sum, l) => sum + l.remaining, 0),
+      expiresAt: lots.reduce((min, l) => (l.expiresAt < min ? l.expiresAt : min), lots[0].expiresAt),
+    });
+  }
+}
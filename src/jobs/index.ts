@@ -0,0 +1,26 @@
+import { registerJob, startScheduler, tick, type JobResult } from "./scheduler";
+import { settleFinishedLessons } from "./lessonCompletion";
+import { expireWaitlistHolds } from "./waitlist";
+import { expireCredits } from "./creditExpiry";
+import { renewSubscriptions } from "./subscriptionRenewals";
+import { expireStalePayments } from "./paymentExpiry";
+
+export function registerJobs(): void {
+  registerJob({ name: "lesson-completion", run: settleFinishedLessons });
+  registerJob({ name: "waitlist-holds", run: expireWaitlistHolds });
+  registerJob({ name: "credit-expiry", run: expireCredits });
+  registerJob({ name: "subscription-renewals", run: renewSubscriptions });
+  registerJob({ name: "payment-expiry", run: expireStalePayments });
+}
+
+/** Long-running server: run the jobs every JOBS_INTERVAL_SECONDS. */
+export function startJobs(): void {
+  registerJobs();
+  startScheduler();
+}
+
+/** Serverless deployments: one scheduler tick per call of GET /cron/tick (see routes/cron). */
+export async function runJobsOnce(): Promise<JobResult[] | null> {
+  registerJobs();
+  return tick();
+}
@@ -0,0 +1,75 @@
+import { Types } from "mongoose";
+import { env } from "../config/env";
+import { BookingModel } from "../models/Booking";
+import { isBbbJoinLink } from "../services/bbbMeetings";
+import { cancelBookingForTeacherNoShow, completeBooking, markBookingNoShow } from "../services/lessonCompletion";
+import { persistAndNotify, resolveTeacherUserId } from "../ws/emit";
+
+const BATCH_SIZE = 200;
+
+type DueBooking = {
+  _id: Types.ObjectId;
+  teacherId: Types.ObjectId;
+  attendance?: { studentJoinedAt?: Date; teacherJoinedAt?: Date };
+  confirmationRequestedAt?: Date;
+  session: { _id: Types.ObjectId; startAt: Date; endAt: Date; meetingLink?: string };
+};
+
+/**
+ * Settle booked lessons that ended at least LESSON_AUTO_COMPLETE_MINUTES ago:
+ * - BBB lessons the teacher joined: completed if the student joined too, no_show otherwise.
+ * - Otherwise the teacher is asked to confirm (complete / no-show); after
+ *   LESSON_CONFIRMATION_TIMEOUT_HOURS without an answer the lesson is completed, or, if BBB saw only the
+ *   student join, cancelled as a teacher no-show with a full refund.
+ */
+export async function settleFinishedLessons(now: Date): Promise<void> {
+  const endedBefore = new Date(now.getTime() - env.LESSON_AUTO_COMPLETE_MINUTES * 60 * 1000);
+  const confirmationDeadline = new Date(now.getTime() - env.LESSON_CONFIRMATION_TIMEOUT_HOURS * 60 * 60 * 1000);
+
+  const due = (await BookingModel.aggregate([
+    { $match: { status: "booked" } },
+    { $lookup: { from: "classsessions", localField: "sessionId", foreignField: "_id", as: "session" } },
+    { $unwind: "$session" },
+    { $match: { "session.endAt": { $lte: endedBefore } } },
+    { $sort: { "session.endAt": 1 } },
+    { $limit: BATCH_SIZE },
+    { $project: { teacherId: 1, attendance: 1, confirmationRequestedAt: 1, session: { _id: 1, startAt: 1, endAt: 1, meetingLink: 1 } } },
+  ])) as DueBooking[];
+
+  for (const b of due) {
+    const studentJoined = Boolean(b.attendance?.studentJoinedAt);
+    const teacherJoined = Boolean(b.attendance?.teacherJoinedAt);
+
+    const bbb = isBbbJoinLink(b.session.meetingLink);
+    if (bbb && teacherJoined) {
+      if (studentJoined) await completeBooking(b._id, "system");
+      else await markBookingNoShow(b._id, "system");
+      continue;
+    }
+    // Completing pays the teacher, so a lesson only the student joined waits for the teacher to confirm it
+    const teacherAbsent = bbb && studentJoined;
+
+    if (!b.confirmationRequestedAt) {
+      // Claim the request so only one instance notifies the teacher.
+      const claimed = await BookingModel.updateOne(
+        { _id: b._id, status: "booked", confirmationRequestedAt: { $exists: false } },
+        { $set: { confirmationRequestedAt: now } }
+      );
+      if (claimed.modifiedCount !== 1) continue;
+      const teacherUserId = await resolveTeacherUserId(b.teacherId);
+      if (teacherUserId) {
+        await persistAndNotify([teacherUserId], "lesson_confirmation_requested", {
+          bookingId: String(b._id),
+          sessionId: String(b.session._id),
+          startAt: b.session.startAt,
+          endAt: b.session.endAt,
+        });
+      }
+      continue;
+    }
+
+    if (b.confirmationRequestedAt > confirmationDeadline) continue;
+    if (teacherAbsent) await cancelBookingForTeacherNoShow(b._id);
+    else await completeBooking(b._id, "system");
+  }
+}
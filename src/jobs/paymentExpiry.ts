@@ -0,0 +1,42 @@
+import mongoose, { Types } from "mongoose";
+import { env } from "../config/env";
+import { PaymentModel } from "../models/Payment";
+import { settlePromoRedemption } from "../services/promoCodes";
+
+const BATCH_SIZE = 200;
+
+/**
+ * Fail package checkouts still pending PAYMENT_CHECKOUT_EXPIRY_HOURS after they were started, and give back
+ * their promo code use. A confirmation that arrives later still grants the credits (see applyPaymentEvent).
+ * Subscription payments are timed out by the renewal job.
+ */
+export async function expireStalePayments(now: Date): Promise<void> {
+  const cutoff = new Date(now.getTime() - env.PAYMENT_CHECKOUT_EXPIRY_HOURS * 60 * 60 * 1000);
+  const stale = (await PaymentModel.find({
+    status: "pending",
+    subscriptionId: { $exists: false },
+    createdAt: { $lte: cutoff },
+  })
+    .select("_id")
+    .limit(BATCH_SIZE)
+    .lean()) as { _id: Types.ObjectId }[];
+
+  for (const { _id } of stale) {
+    const mongoSession = await mongoose.startSession();
+    try {
+      await mongoSession.withTransaction(async () => {
+        const p = await PaymentModel.findOneAndUpdate(
+          { _id, status: "pending" },
+          { $set: { status: "failed", failedAt: now, failureReason: "checkout_expired" } },
+          { new: true, session: mongoSession }
+        );
+        if (p) await settlePromoRedemption(p._id, "released", mongoSession);
+      });
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error("[payments] could not expire checkout", { paymentId: String(_id), err });
+    } finally {
+      mongoSession.endSession();
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { env } from "../config/env";
+
+export type Job = {
+  name: string;
+  run: (now: Date) => Promise<void>;
+};
+
+const jobs: Job[] = [];
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export function registerJob(job: Job): void {
+  if (jobs.some((j) => j.name === job.name)) return;
+  jobs.push(job);
+}
+
+export type JobResult = { name: string; ok: boolean };
+
+/**
+ * Run every registered job once, in order (a failing job does not stop the others). Returns null when the
+ * previous tick is still running (slow DB, many due items) and this one was skipped.
+ */
+export async function tick(): Promise<JobResult[] | null> {
+  if (running) return null;
+  running = true;
+  const results: JobResult[] = [];
+  try {
+    for (const job of jobs) {
+      try {
+        await job.run(new Date());
+        results.push({ name: job.name, ok: true });
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error(`[jobs] ${job.name} failed`, err);
+        results.push({ name: job.name, ok: false });
+      }
+    }
+  } finally {
+    running = false;
+  }
+  return results;
+}
+
+/**
+ * Run registered jobs every JOBS_INTERVAL_SECONDS. Jobs must be safe to run concurrently on
+ * several instances (claim work with conditional updates).
+ */
+export function startScheduler(): void {
+  if (!env.JOBS_ENABLED || timer) return;
+  timer = setInterval(() => void tick(), env.JOBS_INTERVAL_SECONDS * 1000);
+  timer.unref();
+  // eslint-disable-next-line no-console
+  console.log("[jobs] scheduler started", { jobs: jobs.map((j) => j.name), intervalSeconds: env.JOBS_INTERVAL_SECONDS });
+}
+
+export function stopScheduler(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -0,0 +1,93 @@
+import mongoose, { Types } from "mongoose";
+import { env } from "../config/env";
+import { PaymentModel } from "../models/Payment";
+import { SubscriptionModel } from "../models/Subscription";
+import { startSubscriptionCheckout } from "../services/payments";
+import { failSubscriptionPayment, sendSubscriptionNotice, type SubscriptionNotice } from "../services/subscriptions";
+
+const BATCH_SIZE = 100;
+// A renewal checkout that was claimed but never opened (instance died in between) counts as failed after this.
+const STALE_CHECKOUT_MINUTES = 15;
+
+/**
+ * End subscriptions cancelled at period end, and charge the next period of active (and retry past-due)
+ * subscriptions whose period is over. Each period/attempt has at most one payment, so re-running is safe;
+ * credits are granted when the provider confirms the payment (applyPaymentEvent).
+ */
+export async function renewSubscriptions(now: Date): Promise<void> {
+  await SubscriptionModel.updateMany(
+    {
+      status: { $in: ["active", "past_due", "paused"] },
+      cancelAtPeriodEnd: true,
+      currentPeriodEnd: { $lte: now },
+      pendingPaymentId: null,
+    },
+    { $set: { status: "cancelled", cancelledAt: now } }
+  );
+
+  await failStaleCheckouts(now);
+
+  const due = (await SubscriptionModel.find({
+    status: { $in: ["active", "past_due"] },
+    cancelAtPeriodEnd: { $ne: true },
+    pendingPaymentId: null,
+    currentPeriodEnd: { $lte: now },
+    $or: [{ nextRenewalAttemptAt: null }, { nextRenewalAttemptAt: { $lte: now } }],
+  })
+    .select("_id currentPeriodEnd")
+    .limit(BATCH_SIZE)
+    .lean()) as unknown as { _id: Types.ObjectId; currentPeriodEnd: Date }[];
+
+  for (const sub of due) {
+    try {
+      await startSubscriptionCheckout({ subscriptionId: sub._id, periodStart: sub.currentPeriodEnd });
+    } catch (e: any) {
+      // Already recorded as a failed renewal attempt
+      // eslint-disable-next-line no-console
+      console.warn("[subscriptions] renewal checkout failed", { subscriptionId: String(sub._id), error: String(e?.message || e) });
+    }
+  }
+}
+
+// Subscription payments that will not complete: claimed but never opened, or opened and not paid within
+// PAYMENT_CHECKOUT_EXPIRY_HOURS. Each counts as a failed attempt, so the subscription is retried or cancelled.
+async function failStaleCheckouts(now: Date): Promise<void> {
+  const notOpened = {
+    subscriptionId: { $exists: true },
+    status: "pending",
+    providerRef: "",
+    updatedAt: { $lte: new Date(now.getTime() - STALE_CHECKOUT_MINUTES * 60 * 1000) },
+  };
+  const unpaid = {
+    subscriptionId: { $exists: true },
+    status: "pending",
+    createdAt: { $lte: new Date(now.getTime() - env.PAYMENT_CHECKOUT_EXPIRY_HOURS * 60 * 60 * 1000) },
+  };
+  const stale = (await PaymentModel.find({ $or: [notOpened, unpaid] })
+    .select("_id providerRef")
+    .limit(BATCH_SIZE)
+    .lean()) as unknown as { _id: Types.ObjectId; providerRef: string }[];
+
+  for (const { _id, providerRef } of stale) {
+    let notice: SubscriptionNotice | null = null;
+    const mongoSession = await mongoose.startSession();
+    try {
+      await mongoSession.withTransaction(async () => {
+        notice = null;
+        const failureReason = providerRef ? "checkout_expired" : "checkout_not_opened";
+        const p = await PaymentModel.findOneAndUpdate(
+          { _id, status: "pending", providerRef },
+          { $set: { status: "failed", failedAt: now, failureReason } },
+          { new: true, session: mongoSession }
+        );
+        if (p) notice = await failSubscriptionPayment(p, mongoSession, now);
+      });
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error("[subscriptions] could not fail stale checkout", { paymentId: String(_id), err });
+    } finally {
+      mongoSession.endSession();
+    }
+    await sendSubscriptionNotice(notice);
+  }
+}
@@ -0,0 +1,49 @@
+import { Types } from "mongoose";
+import { ClassSessionModel } from "../models/ClassSession";
+import { WaitlistEntryModel } from "../models/WaitlistEntry";
+import { offerNextInLine, releaseWaitlistHold } from "../services/waitlist";
+import { persistAndNotify } from "../ws/emit";
+
+const BATCH_SIZE = 200;
+
+type HeldSession = {
+  _id: Types.ObjectId;
+  startAt: Date;
+  hold: { studentUserId: Types.ObjectId; waitlistEntryId: Types.ObjectId; expiresAt: Date };
+};
+
+/**
+ * Expire waitlist holds that were not used in time and pass the seat to the next student in line.
+ * Waiting entries whose session (or time range) has started are closed as expired.
+ */
+export async function expireWaitlistHolds(now: Date): Promise<void> {
+  const held = (await ClassSessionModel.find({ "hold.expiresAt": { $lte: now } })
+    .select("startAt hold")
+    .limit(BATCH_SIZE)
+    .lean()) as unknown as HeldSession[];
+
+  for (const s of held) {
+    // Claim the expiry so only one instance hands the seat on.
+    if (!(await releaseWaitlistHold(s._id, s.hold.waitlistEntryId))) continue;
+    const expired = await WaitlistEntryModel.updateOne(
+      { _id: s.hold.waitlistEntryId, status: "offered" },
+      { $set: { status: "expired" } }
+    );
+    if (expired.modifiedCount === 1) {
+      await persistAndNotify([String(s.hold.studentUserId)], "waitlist_offer_expired", {
+        waitlistEntryId: String(s.hold.waitlistEntryId),
+        sessionId: String(s._id),
+        startAt: s.startAt,
+      });
+    }
+    await offerNextInLine(s._id, now);
+  }
+
+  await WaitlistEntryModel.updateMany(
+    {
+      status: "waiting",
+      $or: [{ sessionId: { $ne: null }, from: { $lte: now } }, { to: { $lte: now } }],
+    },
+    { $set: { status: "expired" } }
+  );
+}
@@ -1,28 +1,68 @@
 import type { NextFunction, Request, Response } from "express";
 import jwt from "jsonwebtoken";
 import { env } from "../config/env";
-import type { UserRole } from "../models/User";
+import { AuthSessionModel } from "../models/AuthSession";
+import { UserModel, type UserRole } from "../models/User";
+import { asyncHandler } from "../utils/asyncHandler";
 
-export type AuthUser = { id: string; role: UserRole; email: string };
+// sessionId: the AuthSession the access token was issued for
+export type AuthUser = { id: string; role: UserRole; email: string; sessionId?: string };
 
-export function requireAuth(req: Request, res: Response, next: NextFunction) {
-  const header = req.header("authorization") || "";
-  const m = /^Bearer\s+(.+)$/.exec(header);
-  if (!m) return res.status(401).json({ error: "Missing token" });
+/**
+ * Sign a short-lived access token for a user's session. `tv` ties it to the user's tokenVersion
+ * and `sid` to the session, so either a reset or a revoked session invalidates it.
+ */
+export function signAuthToken(
+  user: { _id: unknown; role: string; email: string; tokenVersion?: number | null },
+  sessionId: string
+): string {
+  return jwt.sign(
+    { sub: String(user._id), role: user.role as UserRole, email: user.email, tv: Number(user.tokenVersion ?? 0), sid: sessionId },
+    env.JWT_SECRET,
+    { expiresIn: env.ACCESS_TOKEN_TTL_MINUTES * 60 }
+  );
+}
 
+/**
+ * Verify an access token and check it has not been invalidated since it was issued: the user must still be
+ * active with the same tokenVersion, and the session must not be revoked. Returns null for any invalid token.
+ */
+export async function verifyAuthToken(token: string): Promise<AuthUser | null> {
+  let decoded: any;
   try {
-    const decoded = jwt.verify(m[1], env.JWT_SECRET) as any;
-    const id = String(decoded?.sub || "");
-    const role = decoded?.role as UserRole | undefined;
-    const email = String(decoded?.email || "");
-    if (!id || !role || !email) return res.status(401).json({ error: "Invalid token" });
-    req.user = { id, role, email };
-    return next();
+    decoded = jwt.verify(token, env.JWT_SECRET);
   } catch {
-    return res.status(401).json({ error: "Invalid token" });
+    return null;
   }
+  const id = String(decoded?.sub || "");
+  const role = decoded?.role as UserRole | undefined;
+  const email = String(decoded?.email || "");
+  const sessionId = decoded?.sid ? String(decoded.sid) : undefined;
+  // Other tokens signed with JWT_SECRET (2FA challenges, OAuth state) carry a `kind`
+  if (!id || !role || !email || decoded?.kind) return null;
+
+  const [user, session] = await Promise.all([
+    UserModel.findById(id).select("status tokenVersion").lean() as Promise<{ status: string; tokenVersion?: number } | null>,
+    sessionId ? AuthSessionModel.findOne({ _id: sessionId, userId: id }).select("revokedAt").lean() : null,
+  ]);
+  if (!user || user.status !== "active") return null;
+  // Tokens issued before token versions existed count as version 0
+  if (Number(user.tokenVersion ?? 0) !== Number(decoded?.tv ?? 0)) return null;
+  if (sessionId && (!session || (session as any).revokedAt)) return null;
+  return { id, role, email, sessionId };
 }
 
+export const requireAuth = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const header = req.header("authorization") || "";
+  const m = /^Bearer\s+(.+)$/.exec(header);
+  if (!m) return res.status(401).json({ error: "Missing token" });
+
+  const user = await verifyAuthToken(m[1]);
+  if (!user) return res.status(401).json({ error: "Invalid token" });
+  req.user = user;
+  return next();
+});
+
 export function requireRole(...roles: UserRole[]) {
   return (req: Request, res: Response, next: NextFunction) => {
     const user = req.user;
@@ -31,5 +71,3 @@ export function requireRole(...roles: UserRole[]) {
     return next();
   };
 }
-
-
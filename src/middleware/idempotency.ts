@@ -0,0 +1,102 @@
+import crypto from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import { Types } from "mongoose";
+import { env } from "../config/env";
+import { IdempotencyKeyModel } from "../models/IdempotencyKey";
+import { asyncHandler } from "../utils/asyncHandler";
+
+const MAX_KEY_LENGTH = 255;
+// A key still `processing` after this long belongs to a request that died without answering; a retry takes it over.
+const PROCESSING_TIMEOUT_SECONDS = 120;
+
+function requestHash(req: Request): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${req.method}\n${req.baseUrl}${req.path}\n${JSON.stringify(req.body ?? {})}`)
+    .digest("hex");
+}
+
+function logStoreError(err: unknown) {
+  // eslint-disable-next-line no-console
+  console.error("[idempotency] could not store response", err);
+}
+
+/**
+ * Optional `Idempotency-Key` header for money-moving endpoints (use after requireAuth).
+ * The first JSON response (below 500) is stored for IDEMPOTENCY_KEY_TTL_HOURS and replayed for retries with
+ * the same key; reusing a key for a different request, or while the first one is still running, is a 409.
+ * A request that ends without a stored response releases the key; one that never ends holds it for
+ * PROCESSING_TIMEOUT_SECONDS.
+ */
+export const idempotent = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.header("idempotency-key");
+  if (key === undefined) return next();
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ error: `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters` });
+  }
+  if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+  const userId = new Types.ObjectId(req.user.id);
+  const hash = requestHash(req);
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + env.IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000);
+
+  let record: { _id: Types.ObjectId } | null = null;
+  try {
+    record = await IdempotencyKeyModel.create({
+      userId,
+      key,
+      requestHash: hash,
+      status: "processing",
+      lockedAt: now,
+      expiresAt,
+    });
+  } catch (e: any) {
+    if (e?.code !== 11000) throw e;
+    const existing = (await IdempotencyKeyModel.findOne({ userId, key }).lean()) as any | null;
+    if (!existing) return res.status(409).json({ error: "Idempotency-Key conflict, retry the request" });
+    if (existing.requestHash !== hash) {
+      return res.status(409).json({ error: "Idempotency-Key was already used for a different request" });
+    }
+    if (existing.status === "completed") {
+      res.setHeader("Idempotent-Replayed", "true");
+      return res.status(existing.responseStatus).json(existing.responseBody);
+    }
+    // Take over a key whose request was abandoned (only one retry wins the update)
+    const lockedAt = existing.lockedAt ?? existing.createdAt;
+    if (lockedAt && new Date(lockedAt).getTime() <= now.getTime() - PROCESSING_TIMEOUT_SECONDS * 1000) {
+      record = (await IdempotencyKeyModel.findOneAndUpdate(
+        { _id: existing._id, status: "processing", lockedAt: existing.lockedAt ?? null },
+        { $set: { lockedAt: now, expiresAt } },
+        { new: true }
+      ).lean()) as { _id: Types.ObjectId } | null;
+    }
+    if (!record) return res.status(409).json({ error: "A request with this Idempotency-Key is still in progress" });
+  }
+
+  const recordId = record!._id;
+  let settled = false;
+
+  // Store the response when the route sends it (even if the client has gone away meanwhile).
+  const json = res.json.bind(res);
+  res.json = (payload: unknown) => {
+    settled = true;
+    // Server errors are not stored, so the client can retry with the same key.
+    const stored =
+      res.statusCode >= 500
+        ? IdempotencyKeyModel.deleteOne({ _id: recordId })
+        : IdempotencyKeyModel.updateOne(
+            { _id: recordId },
+            { $set: { status: "completed", responseStatus: res.statusCode, responseBody: payload } }
+          );
+    stored.catch(logStoreError);
+    return json(payload);
+  };
+  // Responses not sent through res.json (send/end, errors) are not replayable: release the key.
+  res.on("finish", () => {
+    if (settled) return;
+    settled = true;
+    IdempotencyKeyModel.deleteOne({ _id: recordId, status: "processing" }).catch(logStoreError);
+  });
+  return next();
+});
@@ -0,0 +1,38 @@
+import type { NextFunction, Request, Response } from "express";
+import { consumeRateLimits, type RateLimitRule } from "../services/rateLimiter";
+import { asyncHandler } from "../utils/asyncHandler";
+
+/** Subject a limit is counted for; null skips the limit for this request. */
+export type RateLimitSubject = (req: Request) => string | null;
+
+export const byIp: RateLimitSubject = (req) => (req.ip ? `ip:${req.ip}` : null);
+
+// Per account, keyed by the email in the body (known or not, so limits don't reveal registered addresses)
+export const byEmail: RateLimitSubject = (req) => {
+  const email = typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : "";
+  return email ? `email:${email}` : null;
+};
+
+/** 429 with a Retry-After header. */
+export function tooManyRequests(res: Response, retryAfterSeconds: number, error = "Too many requests. Please try again later.") {
+  res.set("Retry-After", String(retryAfterSeconds));
+  return res.status(429).json({ error, retryAfter: retryAfterSeconds });
+}
+
+/**
+ * Sliding-window rate limits (shared across instances through Mongo). Every limit must allow the request;
+ * refused requests are not counted.
+ */
+export function rateLimit(...limits: { rule: RateLimitRule; by: RateLimitSubject }[]) {
+  return asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const applicable: { rule: RateLimitRule; subject: string }[] = [];
+    for (const { rule, by } of limits) {
+      const subject = by(req);
+      if (subject) applicable.push({ rule, subject });
+    }
+    if (!applicable.length) return next();
+    const result = await consumeRateLimits(applicable);
+    if (!result.allowed) return tooManyRequests(res, result.retryAfterSeconds);
+    return next();
+  });
+}
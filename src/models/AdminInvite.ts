@@ -0,0 +1,25 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+export type AdminInviteStatus = "pending" | "accepted" | "revoked";
+
+// Invitation to create an admin account for one email address. The invite token is a JWT naming this
+// document; it works once (pending -> accepted) and not after `expiresAt`.
+const AdminInviteSchema = new Schema(
+  {
+    email: { type: String, required: true, trim: true, lowercase: true, index: true },
+    status: { type: String, enum: ["pending", "accepted", "revoked"], required: true, default: "pending" },
+    invitedByUserId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    expiresAt: { type: Date, required: true },
+    acceptedAt: { type: Date },
+    acceptedUserId: { type: Schema.Types.ObjectId, ref: "User" },
+    revokedAt: { type: Date },
+    revokedByUserId: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+AdminInviteSchema.index({ createdAt: -1 });
+
+export type AdminInvite = InferSchemaType<typeof AdminInviteSchema> & { _id: Types.ObjectId };
+
+export const AdminInviteModel = mongoose.models.AdminInvite || mongoose.model("AdminInvite", AdminInviteSchema);
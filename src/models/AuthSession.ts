@@ -0,0 +1,34 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+// A signed-in device. The refresh token is rotated on every use and only its hash is stored;
+// presenting an already-rotated token (reuse) revokes the session.
+const AuthSessionSchema = new Schema(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    refreshTokenHash: { type: String, required: true },
+    // Hashes of rotated-out refresh tokens (most recent last), kept for reuse detection
+    previousTokenHashes: [{ type: String }],
+    userAgent: { type: String, trim: true, default: "" },
+    ip: { type: String, trim: true, default: "" },
+    lastIp: { type: String, trim: true, default: "" },
+    lastUsedAt: { type: Date, default: () => new Date() },
+    // Sliding: pushed forward on every refresh
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date },
+    revokedReason: {
+      type: String,
+      enum: ["logout", "revoked", "revoke_all", "token_reuse", "password_reset", "status_change"],
+    },
+  },
+  { timestamps: true }
+);
+
+AuthSessionSchema.index({ refreshTokenHash: 1 }, { unique: true });
+AuthSessionSchema.index({ previousTokenHashes: 1 });
+AuthSessionSchema.index({ userId: 1, revokedAt: 1, expiresAt: 1 });
+// TTL cleanup (a week after expiry, so recent sessions still show up as expired/revoked)
+AuthSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export type AuthSession = InferSchemaType<typeof AuthSessionSchema> & { _id: Types.ObjectId };
+
+export const AuthSessionModel = mongoose.models.AuthSession || mongoose.model("AuthSession", AuthSessionSchema);
@@ -14,13 +14,41 @@ const BookingSchema = new Schema(
     bookedAt: { type: Date, required: true, default: () => new Date() },
     cancelledAt: { type: Date },
     cancellationReason: { type: String, trim: true, default: "" },
+    cancelledBy: { type: String, enum: ["student", "teacher", "admin", "system"] },
+    refundCredits: { type: Number, min: 0 },
+    refundRule: { type: String, enum: ["full", "partial", "none"] },
+    // Join timestamps recorded by the BBB join endpoint (attendance data for no-show detection)
+    attendance: {
+      studentJoinedAt: { type: Date },
+      teacherJoinedAt: { type: Date },
+    },
+    completedAt: { type: Date },
+    completedBy: { type: String, enum: ["teacher", "system"] },
+    // Set when the teacher was asked to confirm a lesson that has no attendance data
+    confirmationRequestedAt: { type: Date },
+    // Recurring weekly bookings (POST /bookings/recurring) share a series id.
+    seriesId: { type: Schema.Types.ObjectId },
+    // Previous sessions this booking was moved away from (most recent last).
+    rescheduledFrom: [
+      {
+        sessionId: { type: Schema.Types.ObjectId, ref: "ClassSession", required: true },
+        at: { type: Date, required: true },
+        _id: false,
+      },
+    ],
   },
   { timestamps: true }
 );
 
-BookingSchema.index({ sessionId: 1 }, { unique: true });
+// Group sessions hold several bookings; a student can hold only one active booking per session.
+BookingSchema.index({ sessionId: 1, status: 1 });
+BookingSchema.index(
+  { sessionId: 1, studentUserId: 1 },
+  { unique: true, partialFilterExpression: { status: "booked" } }
+);
 BookingSchema.index({ studentUserId: 1, bookedAt: -1 });
 BookingSchema.index({ teacherId: 1, bookedAt: -1 });
+BookingSchema.index({ seriesId: 1 }, { sparse: true });
 
 export type Booking = InferSchemaType<typeof BookingSchema>;
 
@@ -0,0 +1,24 @@
+import mongoose, { Schema, type InferSchemaType } from "mongoose";
+
+export type CancellationPolicyScope = "platform" | "teacher";
+
+const CancellationPolicySchema = new Schema(
+  {
+    scope: { type: String, enum: ["platform", "teacher"], required: true },
+    // Only for scope "teacher" (per-teacher override of the platform policy)
+    teacherId: { type: Schema.Types.ObjectId, ref: "TeacherProfile" },
+    // Cancelling at least this many hours before start refunds in full.
+    fullRefundHours: { type: Number, required: true, min: 0 },
+    // Cancelling inside the window (but before start) refunds this share of the price.
+    partialRefundPercent: { type: Number, required: true, min: 0, max: 100 },
+    updatedByUserId: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+CancellationPolicySchema.index({ scope: 1, teacherId: 1 }, { unique: true });
+
+export type CancellationPolicy = InferSchemaType<typeof CancellationPolicySchema>;
+
+export const CancellationPolicyModel =
+  mongoose.models.CancellationPolicy || mongoose.model("CancellationPolicy", CancellationPolicySchema);
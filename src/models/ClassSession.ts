@@ -1,21 +1,43 @@
 import mongoose, { Schema, type InferSchemaType } from "mongoose";
 
-export type ClassSessionStatus = "open" | "booked" | "cancelled";
+// "full": every seat is booked. "booked" is the pre-group-class equivalent kept for existing documents.
+export type ClassSessionStatus = "open" | "booked" | "full" | "cancelled";
+
+// Supported lesson lengths (minutes). Pricing and earnings distinguish sessions by this value.
+export const LESSON_DURATIONS = [25, 50, 80] as const;
+export type LessonDuration = (typeof LESSON_DURATIONS)[number];
 
 const ClassSessionSchema = new Schema(
   {
     teacherId: { type: Schema.Types.ObjectId, ref: "TeacherProfile", required: true },
     startAt: { type: Date, required: true },
     endAt: { type: Date, required: true },
-    status: { type: String, enum: ["open", "booked", "cancelled"], default: "open", required: true },
+    durationMinutes: { type: Number, enum: LESSON_DURATIONS, default: 25, required: true },
+    status: { type: String, enum: ["open", "booked", "full", "cancelled"], default: "open", required: true },
+    // Group classes: number of students that can book this session, and how many seats are taken.
+    capacity: { type: Number, min: 1, default: 1, required: true },
+    seatsBooked: { type: Number, min: 0, default: 0, required: true },
     priceCredits: { type: Number, required: true, min: 1 },
     meetingLink: { type: String, trim: true, default: "" },
+    // Exclusive hold for the waitlisted student offered a freed seat (only they can take the last seat until expiresAt).
+    hold: {
+      type: new Schema(
+        {
+          studentUserId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+          waitlistEntryId: { type: Schema.Types.ObjectId, ref: "WaitlistEntry", required: true },
+          expiresAt: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
   },
   { timestamps: true }
 );
 
 ClassSessionSchema.index({ teacherId: 1, startAt: 1 });
 ClassSessionSchema.index({ status: 1, startAt: 1 });
+ClassSessionSchema.index({ "hold.expiresAt": 1 }, { sparse: true });
 
 export type ClassSession = InferSchemaType<typeof ClassSessionSchema>;
 
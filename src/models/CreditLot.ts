@@ -0,0 +1,34 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+// A batch of credits a user received in one ledger entry. Negative entries (spend, share_out, expire...)
+// consume lots soonest-expiring first; `remaining` always adds up to the balance once a user has lots.
+const CreditLotSchema = new Schema(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    // Ledger entry that created the lot (null for the opening lot of a pre-existing balance)
+    sourceTxId: { type: Schema.Types.ObjectId, ref: "CreditTransaction", default: null },
+    sourceType: {
+      type: String,
+      enum: ["opening", "purchase", "refund", "admin_adjust", "share_in", "payment_refund", "referral_reward"],
+      required: true,
+    },
+    amount: { type: Number, required: true, min: 0 },
+    remaining: { type: Number, required: true, min: 0 },
+    // null = never expires
+    expiresAt: { type: Date, default: null },
+    expiredAt: { type: Date },
+    // When the student was told this lot is about to expire
+    expiryNotifiedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+CreditLotSchema.index({ userId: 1, remaining: 1, expiresAt: 1 });
+CreditLotSchema.index({ expiresAt: 1, remaining: 1 });
+CreditLotSchema.index({ sourceTxId: 1 });
+// At most one opening lot per user
+CreditLotSchema.index({ userId: 1 }, { unique: true, partialFilterExpression: { sourceType: "opening" } });
+
+export type CreditLot = InferSchemaType<typeof CreditLotSchema> & { _id: Types.ObjectId };
+
+export const CreditLotModel = mongoose.models.CreditLot || mongoose.model("CreditLot", CreditLotSchema);
@@ -0,0 +1,31 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+// Credit bundle sold to students (admin-managed catalog).
+const CreditPackageSchema = new Schema(
+  {
+    name: { type: String, trim: true, required: true },
+    description: { type: String, trim: true, default: "" },
+    credits: { type: Number, required: true, min: 1 },
+    // Extra credits on top of `credits` (the discount)
+    bonusCredits: { type: Number, min: 0, default: 0 },
+    // Months until the bought credits expire (0 = never, null = CREDIT_EXPIRY_MONTHS)
+    creditValidityMonths: { type: Number, min: 0, default: null },
+    priceCents: { type: Number, required: true, min: 1 },
+    currency: { type: String, trim: true, lowercase: true, required: true },
+    // Inactive packages cannot be bought; hidden (visible=false) ones can, but are not listed publicly.
+    active: { type: Boolean, default: true },
+    visible: { type: Boolean, default: true },
+    validFrom: { type: Date },
+    validUntil: { type: Date },
+    sortOrder: { type: Number, default: 0 },
+    updatedByUserId: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+CreditPackageSchema.index({ active: 1, visible: 1, sortOrder: 1 });
+
+export type CreditPackage = InferSchemaType<typeof CreditPackageSchema> & { _id: Types.ObjectId };
+
+export const CreditPackageModel =
+  mongoose.models.CreditPackage || mongoose.model("CreditPackage", CreditPackageSchema);
@@ -0,0 +1,35 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+export type CreditShareStatus = "pending" | "accepted" | "declined" | "cancelled" | "expired" | "reversed";
+
+// A credit transfer between two student accounts. Ledger entries (share_out/share_in) are written on acceptance.
+const CreditShareSchema = new Schema(
+  {
+    fromUserId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    toUserId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    amount: { type: Number, required: true, min: 1 },
+    note: { type: String, trim: true, default: "" },
+    status: {
+      type: String,
+      enum: ["pending", "accepted", "declined", "cancelled", "expired", "reversed"],
+      default: "pending",
+      required: true,
+    },
+    // The recipient must accept before this; afterwards the share counts as expired.
+    expiresAt: { type: Date, required: true },
+    acceptedAt: { type: Date },
+    // The sender can take the credits back until then (if the recipient still has them).
+    reversibleUntil: { type: Date },
+    declinedAt: { type: Date },
+    cancelledAt: { type: Date },
+    reversedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+CreditShareSchema.index({ fromUserId: 1, createdAt: -1 });
+CreditShareSchema.index({ toUserId: 1, createdAt: -1 });
+
+export type CreditShare = InferSchemaType<typeof CreditShareSchema> & { _id: Types.ObjectId };
+
+export const CreditShareModel = mongoose.models.CreditShare || mongoose.model("CreditShare", CreditShareSchema);
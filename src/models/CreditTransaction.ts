@@ -1,13 +1,35 @@
 import mongoose, { Schema, type InferSchemaType } from "mongoose";
 
-export type CreditTxType = "purchase" | "spend" | "refund" | "admin_adjust" | "share_out" | "share_in";
+export type CreditTxType =
+  | "purchase"
+  | "spend"
+  | "refund"
+  | "admin_adjust"
+  | "share_out"
+  | "share_in"
+  | "payment_refund"
+  | "expire"
+  | "referral_reward";
 
 const CreditTransactionSchema = new Schema(
   {
     userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
     type: {
       type: String,
-      enum: ["purchase", "spend", "refund", "admin_adjust", "share_out", "share_in"],
+      // payment_refund: purchased credits removed because the payment was refunded
+      // expire: unused credits of a lot that passed its expiry date
+      // referral_reward: credited to a referrer when the referred student completes a first lesson
+      enum: [
+        "purchase",
+        "spend",
+        "refund",
+        "admin_adjust",
+        "share_out",
+        "share_in",
+        "payment_refund",
+        "expire",
+        "referral_reward",
+      ],
       required: true,
     },
     amount: { type: Number, required: true }, // spend should be negative
@@ -15,13 +37,35 @@ const CreditTransactionSchema = new Schema(
     meta: {
       method: { type: String, trim: true, default: "" },
       referralCode: { type: String, trim: true, default: "" },
+      // Cancellation refunds: which policy rule applied and the refunded share of the price.
+      refundRule: { type: String, enum: ["full", "partial", "none", ""], default: "" },
+      refundPercent: { type: Number },
+      // Purchases: package bought and what was paid for it
+      packageId: { type: Schema.Types.ObjectId, ref: "CreditPackage" },
+      priceCents: { type: Number },
+      priceCurrency: { type: String, trim: true },
+      promoCode: { type: String, trim: true },
+      // Admin adjustments: why, and which admin made it
+      reason: { type: String, trim: true },
+      adminUserId: { type: Schema.Types.ObjectId, ref: "User" },
     },
     related: {
       bookingId: { type: Schema.Types.ObjectId, ref: "Booking" },
       sessionId: { type: Schema.Types.ObjectId, ref: "ClassSession" },
-      paymentId: { type: Schema.Types.ObjectId },
+      paymentId: { type: Schema.Types.ObjectId, ref: "Payment" },
       shareId: { type: Schema.Types.ObjectId },
+      referralId: { type: Schema.Types.ObjectId, ref: "Referral" },
+      subscriptionId: { type: Schema.Types.ObjectId, ref: "Subscription" },
+      lotId: { type: Schema.Types.ObjectId, ref: "CreditLot" },
     },
+    // Credit lots this entry created (positive amount) or consumed (negative amount)
+    lots: [
+      {
+        _id: false,
+        lotId: { type: Schema.Types.ObjectId, ref: "CreditLot", required: true },
+        amount: { type: Number, required: true },
+      },
+    ],
   },
   { timestamps: true }
 );
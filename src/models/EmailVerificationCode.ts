@@ -1,8 +1,13 @@
 import mongoose, { Schema, type InferSchemaType } from "mongoose";
 
+export type EmailCodePurpose = "verify_email" | "password_reset";
+
+// One-time codes sent by email. Codes are only accepted for the purpose they were sent for.
 const EmailVerificationCodeSchema = new Schema(
   {
-    userId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    // Queried through the { userId, purpose } index (a plain userId_1 would clash with the legacy unique one)
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    purpose: { type: String, enum: ["verify_email", "password_reset"], required: true, default: "verify_email" },
     email: { type: String, required: true, trim: true, lowercase: true, index: true },
     codeHash: { type: String, required: true },
     expiresAt: { type: Date, required: true, index: true },
@@ -14,7 +19,7 @@ const EmailVerificationCodeSchema = new Schema(
 
 // TTL cleanup
 EmailVerificationCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
-EmailVerificationCodeSchema.index({ userId: 1 }, { unique: true });
+EmailVerificationCodeSchema.index({ userId: 1, purpose: 1 }, { unique: true });
 
 export type EmailVerificationCode = InferSchemaType<typeof EmailVerificationCodeSchema>;
 
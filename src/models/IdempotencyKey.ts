@@ -0,0 +1,26 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+// First response to a request sent with an Idempotency-Key header, replayed for retries (see middleware/idempotency).
+const IdempotencyKeySchema = new Schema(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    key: { type: String, required: true },
+    // sha256 of method, path and body: a reused key must come with the same request
+    requestHash: { type: String, required: true },
+    status: { type: String, enum: ["processing", "completed"], default: "processing", required: true },
+    // When the request holding the key started (or took over an abandoned one); see PROCESSING_TIMEOUT_SECONDS
+    lockedAt: { type: Date, default: () => new Date() },
+    responseStatus: { type: Number },
+    responseBody: { type: Schema.Types.Mixed },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+IdempotencyKeySchema.index({ userId: 1, key: 1 }, { unique: true });
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export type IdempotencyKey = InferSchemaType<typeof IdempotencyKeySchema> & { _id: Types.ObjectId };
+
+export const IdempotencyKeyModel =
+  mongoose.models.IdempotencyKey || mongoose.model("IdempotencyKey", IdempotencyKeySchema);
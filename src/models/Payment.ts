@@ -0,0 +1,64 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+export type PaymentStatus = "pending" | "succeeded" | "failed" | "refund_pending" | "refunded";
+
+const PaymentSchema = new Schema(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    provider: { type: String, trim: true, required: true },
+    // Provider's id for the checkout/charge (set once the checkout session exists)
+    providerRef: { type: String, trim: true, default: "" },
+    status: {
+      type: String,
+      enum: ["pending", "succeeded", "failed", "refund_pending", "refunded"],
+      default: "pending",
+      required: true,
+    },
+    amountCents: { type: Number, required: true, min: 0 },
+    currency: { type: String, trim: true, lowercase: true, required: true },
+    // Credits granted on confirmation (package credits + bonus)
+    credits: { type: Number, required: true, min: 1 },
+    packageId: { type: Schema.Types.ObjectId, ref: "CreditPackage" },
+    packageName: { type: String, trim: true, default: "" },
+    // Package's credit validity at checkout (null = CREDIT_EXPIRY_MONTHS)
+    creditValidityMonths: { type: Number, min: 0, default: null },
+    checkoutUrl: { type: String, trim: true, default: "" },
+    // Ledger entry that granted the credits (on confirmation)
+    creditTxId: { type: Schema.Types.ObjectId, ref: "CreditTransaction" },
+    referralCode: { type: String, trim: true, default: "" },
+    // Promo code applied at checkout: `amountCents` is already discounted, `credits` include the bonus
+    promoCodeId: { type: Schema.Types.ObjectId, ref: "PromoCode" },
+    promoCode: { type: String, trim: true, default: "" },
+    discountCents: { type: Number, min: 0, default: 0 },
+    promoBonusCredits: { type: Number, min: 0, default: 0 },
+    // Subscription payments: the billing period they pay for (renewalAttempt counts retries of a failed renewal)
+    subscriptionId: { type: Schema.Types.ObjectId, ref: "Subscription" },
+    periodStart: { type: Date },
+    periodEnd: { type: Date },
+    renewalAttempt: { type: Number, min: 0 },
+    failureReason: { type: String, trim: true, default: "" },
+    succeededAt: { type: Date },
+    failedAt: { type: Date },
+    refundRef: { type: String, trim: true, default: "" },
+    refundedAt: { type: Date },
+    refundedByUserId: { type: Schema.Types.ObjectId, ref: "User" },
+    // Webhook event ids already applied (providers may deliver an event more than once)
+    processedEventIds: [{ type: String }],
+  },
+  { timestamps: true }
+);
+
+// One payment per subscription period and attempt, so re-running the renewal job cannot charge twice
+PaymentSchema.index(
+  { subscriptionId: 1, periodStart: 1, renewalAttempt: 1 },
+  { unique: true, partialFilterExpression: { subscriptionId: { $exists: true } } }
+);
+PaymentSchema.index({ userId: 1, createdAt: -1 });
+PaymentSchema.index(
+  { provider: 1, providerRef: 1 },
+  { unique: true, partialFilterExpression: { providerRef: { $type: "string", $gt: "" } } }
+);
+
+export type Payment = InferSchemaType<typeof PaymentSchema> & { _id: Types.ObjectId };
+
+export const PaymentModel = mongoose.models.Payment || mongoose.model("Payment", PaymentSchema);
@@ -0,0 +1,31 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+export type PromoCodeKind = "percent_off" | "bonus_credits";
+
+// Code a student enters when buying a credit package (admin-managed).
+const PromoCodeSchema = new Schema(
+  {
+    code: { type: String, trim: true, uppercase: true, required: true },
+    description: { type: String, trim: true, default: "" },
+    // percent_off lowers the package price; bonus_credits adds credits to it
+    kind: { type: String, enum: ["percent_off", "bonus_credits"], required: true },
+    percentOff: { type: Number, min: 1, max: 99 },
+    bonusCredits: { type: Number, min: 1 },
+    // null = unlimited
+    maxRedemptions: { type: Number, min: 1, default: null },
+    perUserLimit: { type: Number, min: 1, default: 1 },
+    // Reserved at checkout; given back if the payment fails
+    redemptionCount: { type: Number, min: 0, default: 0 },
+    active: { type: Boolean, default: true },
+    validFrom: { type: Date },
+    validUntil: { type: Date },
+    updatedByUserId: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+PromoCodeSchema.index({ code: 1 }, { unique: true });
+
+export type PromoCode = InferSchemaType<typeof PromoCodeSchema> & { _id: Types.ObjectId };
+
+export const PromoCodeModel = mongoose.models.PromoCode || mongoose.model("PromoCode", PromoCodeSchema);
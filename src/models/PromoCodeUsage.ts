@@ -0,0 +1,19 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+// How many uses of a promo code a student holds (pending or redeemed), so perUserLimit can be claimed
+// with one conditional update instead of count-then-insert.
+const PromoCodeUsageSchema = new Schema(
+  {
+    promoCodeId: { type: Schema.Types.ObjectId, ref: "PromoCode", required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    count: { type: Number, min: 0, default: 0 },
+  },
+  { timestamps: true }
+);
+
+PromoCodeUsageSchema.index({ promoCodeId: 1, userId: 1 }, { unique: true });
+
+export type PromoCodeUsage = InferSchemaType<typeof PromoCodeUsageSchema> & { _id: Types.ObjectId };
+
+export const PromoCodeUsageModel =
+  mongoose.models.PromoCodeUsage || mongoose.model("PromoCodeUsage", PromoCodeUsageSchema);
@@ -0,0 +1,29 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+export type PromoRedemptionStatus = "pending" | "redeemed" | "released";
+
+// One use of a promo code: pending while the payment is open, redeemed when it succeeds,
+// released (the use is given back) when it fails.
+const PromoRedemptionSchema = new Schema(
+  {
+    promoCodeId: { type: Schema.Types.ObjectId, ref: "PromoCode", required: true },
+    code: { type: String, trim: true, required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    paymentId: { type: Schema.Types.ObjectId, ref: "Payment", required: true },
+    status: { type: String, enum: ["pending", "redeemed", "released"], default: "pending", required: true },
+    discountCents: { type: Number, min: 0, default: 0 },
+    bonusCredits: { type: Number, min: 0, default: 0 },
+    redeemedAt: { type: Date },
+    releasedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+PromoRedemptionSchema.index({ promoCodeId: 1, createdAt: -1 });
+PromoRedemptionSchema.index({ promoCodeId: 1, userId: 1, status: 1 });
+PromoRedemptionSchema.index({ paymentId: 1 }, { unique: true });
+
+export type PromoRedemption = InferSchemaType<typeof PromoRedemptionSchema> & { _id: Types.ObjectId };
+
+export const PromoRedemptionModel =
+  mongoose.models.PromoRedemption || mongoose.model("PromoRedemption", PromoRedemptionSchema);
@@ -0,0 +1,19 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+// One request counted against a rate limit (`key` = rule name + subject, e.g. "login:ip:1.2.3.4"), or a lockout
+// (key prefixed "lock:"; active until expiresAt). Shared by all instances; see services/rateLimiter.
+const RateLimitHitSchema = new Schema(
+  {
+    key: { type: String, required: true },
+    at: { type: Date, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  { versionKey: false }
+);
+
+RateLimitHitSchema.index({ key: 1, at: 1 });
+RateLimitHitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export type RateLimitHit = InferSchemaType<typeof RateLimitHitSchema> & { _id: Types.ObjectId };
+
+export const RateLimitHitModel = mongoose.models.RateLimitHit || mongoose.model("RateLimitHit", RateLimitHitSchema);
@@ -0,0 +1,29 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+export type ReferralStatus = "pending" | "rewarded";
+
+// A student who joined with another student's referral code. The referrer is rewarded once the
+// referred student completes a first lesson.
+const ReferralSchema = new Schema(
+  {
+    referrerUserId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    referredUserId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    code: { type: String, trim: true, required: true },
+    status: { type: String, enum: ["pending", "rewarded"], default: "pending", required: true },
+    rewardCredits: { type: Number, min: 0, default: 0 },
+    rewardTxId: { type: Schema.Types.ObjectId, ref: "CreditTransaction" },
+    // The lesson that triggered the reward
+    bookingId: { type: Schema.Types.ObjectId, ref: "Booking" },
+    rewardedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+// A student can be referred only once
+ReferralSchema.index({ referredUserId: 1 }, { unique: true });
+ReferralSchema.index({ referrerUserId: 1, createdAt: -1 });
+ReferralSchema.index({ status: 1, createdAt: -1 });
+
+export type Referral = InferSchemaType<typeof ReferralSchema> & { _id: Types.ObjectId };
+
+export const ReferralModel = mongoose.models.Referral || mongoose.model("Referral", ReferralSchema);
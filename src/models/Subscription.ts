@@ -0,0 +1,54 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+export type SubscriptionStatus = "incomplete" | "active" | "paused" | "past_due" | "cancelled";
+
+// A student's subscription to a plan. Each billing period is paid through the payment provider;
+// the allowance is granted (as a `purchase` ledger entry) when the period's payment succeeds.
+const SubscriptionSchema = new Schema(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    planId: { type: Schema.Types.ObjectId, ref: "SubscriptionPlan", required: true },
+    // Plan terms at subscription time (plan edits apply to new subscriptions only)
+    planName: { type: String, trim: true, default: "" },
+    creditsPerPeriod: { type: Number, required: true, min: 1 },
+    periodMonths: { type: Number, required: true, min: 1 },
+    priceCents: { type: Number, required: true, min: 1 },
+    currency: { type: String, trim: true, lowercase: true, required: true },
+    rolloverCap: { type: Number, min: 0, default: 0 },
+    // incomplete: first payment not confirmed yet; past_due: a renewal payment failed (retried)
+    status: {
+      type: String,
+      enum: ["incomplete", "active", "paused", "past_due", "cancelled"],
+      default: "incomplete",
+      required: true,
+    },
+    currentPeriodStart: { type: Date },
+    currentPeriodEnd: { type: Date },
+    cancelAtPeriodEnd: { type: Boolean, default: false },
+    pausedAt: { type: Date },
+    cancelledAt: { type: Date },
+    cancelReason: { type: String, trim: true, default: "" },
+    // Payment currently open for the next period (claimed by the renewal job; cleared when it settles)
+    pendingPaymentId: { type: Schema.Types.ObjectId, ref: "Payment", default: null },
+    lastPaymentId: { type: Schema.Types.ObjectId, ref: "Payment" },
+    renewalAttempts: { type: Number, min: 0, default: 0 },
+    nextRenewalAttemptAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+SubscriptionSchema.index({ userId: 1, createdAt: -1 });
+// At most one live (not cancelled) subscription per student
+SubscriptionSchema.index(
+  { userId: 1 },
+  {
+    unique: true,
+    name: "userId_live_unique",
+    partialFilterExpression: { status: { $in: ["incomplete", "active", "paused", "past_due"] } },
+  }
+);
+SubscriptionSchema.index({ status: 1, currentPeriodEnd: 1 });
+
+export type Subscription = InferSchemaType<typeof SubscriptionSchema> & { _id: Types.ObjectId };
+
+export const SubscriptionModel = mongoose.models.Subscription || mongoose.model("Subscription", SubscriptionSchema);
@@ -0,0 +1,29 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+// Recurring credit allowance sold to students, e.g. "8 lessons a month" (admin-managed catalog).
+const SubscriptionPlanSchema = new Schema(
+  {
+    name: { type: String, trim: true, required: true },
+    description: { type: String, trim: true, default: "" },
+    // Credits granted at the start of every billing period
+    creditsPerPeriod: { type: Number, required: true, min: 1 },
+    periodMonths: { type: Number, min: 1, max: 12, default: 1 },
+    priceCents: { type: Number, required: true, min: 1 },
+    currency: { type: String, trim: true, lowercase: true, required: true },
+    // Unused allowance credits that carry over into the next period (the rest expires at renewal)
+    rolloverCap: { type: Number, min: 0, default: 0 },
+    // Inactive plans cannot be subscribed to (existing subscriptions keep renewing); hidden ones are not listed.
+    active: { type: Boolean, default: true },
+    visible: { type: Boolean, default: true },
+    sortOrder: { type: Number, default: 0 },
+    updatedByUserId: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+SubscriptionPlanSchema.index({ active: 1, visible: 1, sortOrder: 1 });
+
+export type SubscriptionPlan = InferSchemaType<typeof SubscriptionPlanSchema> & { _id: Types.ObjectId };
+
+export const SubscriptionPlanModel =
+  mongoose.models.SubscriptionPlan || mongoose.model("SubscriptionPlan", SubscriptionPlanSchema);
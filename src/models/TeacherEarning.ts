@@ -0,0 +1,35 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+export type TeacherEarningType = "lesson" | "reversal";
+
+// Teacher earnings ledger: a `lesson` entry when a booking completes (price minus platform commission),
+// a negative `reversal` entry when that lesson is refunded. Entries are paid out in TeacherPayout batches.
+const TeacherEarningSchema = new Schema(
+  {
+    teacherId: { type: Schema.Types.ObjectId, ref: "TeacherProfile", required: true },
+    type: { type: String, enum: ["lesson", "reversal"], required: true },
+    bookingId: { type: Schema.Types.ObjectId, ref: "Booking", required: true },
+    sessionId: { type: Schema.Types.ObjectId, ref: "ClassSession" },
+    studentUserId: { type: Schema.Types.ObjectId, ref: "User" },
+    lessonStartAt: { type: Date },
+    // Credits paid for the lesson (negative for reversals), the platform's cut, and what the teacher gets
+    grossCredits: { type: Number, required: true },
+    commissionPercent: { type: Number, required: true, min: 0, max: 100 },
+    commissionCredits: { type: Number, required: true },
+    netCredits: { type: Number, required: true },
+    reason: { type: String, trim: true, default: "" },
+    // Payout batch this entry was paid in (null = not paid out yet)
+    payoutId: { type: Schema.Types.ObjectId, ref: "TeacherPayout", default: null },
+  },
+  { timestamps: true }
+);
+
+// One lesson entry per booking
+TeacherEarningSchema.index({ bookingId: 1 }, { unique: true, partialFilterExpression: { type: "lesson" } });
+TeacherEarningSchema.index({ teacherId: 1, createdAt: -1 });
+TeacherEarningSchema.index({ teacherId: 1, payoutId: 1 });
+
+export type TeacherEarning = InferSchemaType<typeof TeacherEarningSchema> & { _id: Types.ObjectId };
+
+export const TeacherEarningModel =
+  mongoose.models.TeacherEarning || mongoose.model("TeacherEarning", TeacherEarningSchema);
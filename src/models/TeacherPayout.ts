@@ -0,0 +1,32 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+export type TeacherPayoutStatus = "pending" | "paid";
+
+// A batch of unpaid earnings for one teacher, created by an admin and marked paid once the money is sent.
+const TeacherPayoutSchema = new Schema(
+  {
+    teacherId: { type: Schema.Types.ObjectId, ref: "TeacherProfile", required: true },
+    status: { type: String, enum: ["pending", "paid"], default: "pending", required: true },
+    // Earnings created before this instant were included
+    periodEnd: { type: Date, required: true },
+    earningsCount: { type: Number, required: true, min: 0 },
+    credits: { type: Number, required: true },
+    // credits x TEACHER_PAYOUT_CENTS_PER_CREDIT at batch time
+    amountCents: { type: Number, required: true, min: 0 },
+    currency: { type: String, trim: true, lowercase: true, required: true },
+    createdByUserId: { type: Schema.Types.ObjectId, ref: "User" },
+    paidAt: { type: Date },
+    paidByUserId: { type: Schema.Types.ObjectId, ref: "User" },
+    // Bank transfer / payment reference
+    reference: { type: String, trim: true, default: "" },
+  },
+  { timestamps: true }
+);
+
+TeacherPayoutSchema.index({ teacherId: 1, createdAt: -1 });
+TeacherPayoutSchema.index({ status: 1, createdAt: -1 });
+
+export type TeacherPayout = InferSchemaType<typeof TeacherPayoutSchema> & { _id: Types.ObjectId };
+
+export const TeacherPayoutModel =
+  mongoose.models.TeacherPayout || mongoose.model("TeacherPayout", TeacherPayoutSchema);
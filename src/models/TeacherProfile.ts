@@ -49,6 +49,9 @@ const TeacherProfileSchema = new Schema(
       ratingCount: { type: Number, default: 0 },
       followersCount: { type: Number, default: 0 },
       earnedTotal: { type: Number, default: 0 },
+      // Reliability: bookings the teacher cancelled, and that count over all non-student-cancelled bookings.
+      teacherCancellations: { type: Number, default: 0 },
+      cancellationRate: { type: Number, default: 0 },
     },
   },
   { timestamps: true }
@@ -3,16 +3,48 @@ import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
 export type TeachingNotificationType =
   | "new_booking"
   | "booking_cancelled"
+  | "booking_rescheduled"
   | "session_cancelled"
   | "class_report_submitted"
-  | "lesson_completed";
+  | "lesson_completed"
+  | "lesson_no_show"
+  | "lesson_confirmation_requested"
+  | "waitlist_offer"
+  | "waitlist_offer_expired"
+  | "credit_share_received"
+  | "credit_share_accepted"
+  | "credit_share_declined"
+  | "credit_share_reversed"
+  | "credits_expiring"
+  | "referral_rewarded"
+  | "subscription_renewed"
+  | "subscription_payment_failed";
 
 const TeachingNotificationSchema = new Schema(
   {
     userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
     type: {
       type: String,
-      enum: ["new_booking", "booking_cancelled", "session_cancelled", "class_report_submitted", "lesson_completed"],
+      enum: [
+        "new_booking",
+        "booking_cancelled",
+        "booking_rescheduled",
+        "session_cancelled",
+        "class_report_submitted",
+        "lesson_completed",
+        "lesson_no_show",
+        "lesson_confirmation_requested",
+        "waitlist_offer",
+        "waitlist_offer_expired",
+        "credit_share_received",
+        "credit_share_accepted",
+        "credit_share_declined",
+        "credit_share_reversed",
+        "credits_expiring",
+        "referral_rewarded",
+        "subscription_renewed",
+        "subscription_payment_failed",
+      ],
       required: true,
     },
     readAt: { type: Date },
@@ -1,16 +1,34 @@
 import mongoose, { Schema, type InferSchemaType } from "mongoose";
 
 export type UserRole = "student" | "teacher" | "admin";
-export type UserStatus = "active" | "disabled";
+// inactive / banned: set by admins; disabled: forum moderation ban. Only active users can sign in.
+export type UserStatus = "active" | "inactive" | "banned" | "disabled";
 
 const UserSchema = new Schema(
   {
     role: { type: String, enum: ["student", "teacher", "admin"], required: true },
     email: { type: String, required: true, trim: true, lowercase: true },
     passwordHash: { type: String, required: true },
-    status: { type: String, enum: ["active", "disabled"], required: true, default: "active" },
+    status: { type: String, enum: ["active", "inactive", "banned", "disabled"], required: true, default: "active" },
     verifiedEmail: { type: Boolean, default: false },
     lastLoginAt: { type: Date },
+    // Bumped to invalidate every token issued so far (e.g. on password reset)
+    tokenVersion: { type: Number, default: 0 },
+    passwordChangedAt: { type: Date },
+    // TOTP second factor (mandatory for admins). Secrets are encrypted with TOKEN_ENCRYPTION_KEY.
+    twoFactor: {
+      enabled: { type: Boolean, default: false },
+      secretEncrypted: { type: String, default: "" },
+      // Secret of an enrollment that was started but not confirmed yet
+      pendingSecretEncrypted: { type: String, default: "" },
+      // sha256 of unused one-time backup codes
+      backupCodeHashes: [{ type: String }],
+      // Time step of the last accepted code, so a code cannot be used twice
+      lastUsedCounter: { type: Number, default: 0 },
+      enabledAt: { type: Date },
+    },
+    // Students: code other students use to sign up through them (created on first request)
+    referralCode: { type: String, trim: true, uppercase: true },
     integrations: {
       googleCalendar: {
         connected: { type: Boolean, default: false },
@@ -29,6 +47,7 @@ const UserSchema = new Schema(
 
 UserSchema.index({ email: 1 }, { unique: true });
 UserSchema.index({ role: 1, status: 1 });
+UserSchema.index({ referralCode: 1 }, { unique: true, sparse: true });
 UserSchema.index({ "integrations.googleCalendar.connected": 1 });
 
 export type User = InferSchemaType<typeof UserSchema>;
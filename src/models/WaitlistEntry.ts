@@ -0,0 +1,43 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+export type WaitlistEntryStatus = "waiting" | "offered" | "booked" | "expired" | "cancelled";
+
+const WaitlistEntrySchema = new Schema(
+  {
+    studentUserId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    teacherId: { type: Schema.Types.ObjectId, ref: "TeacherProfile", required: true },
+    // Set for a specific session; unset means "any session of the teacher between from and to".
+    sessionId: { type: Schema.Types.ObjectId, ref: "ClassSession", default: null },
+    from: { type: Date, required: true },
+    to: { type: Date, required: true },
+    status: {
+      type: String,
+      enum: ["waiting", "offered", "booked", "expired", "cancelled"],
+      default: "waiting",
+      required: true,
+    },
+    // Exclusive hold on a reopened session while status is "offered"
+    offer: {
+      type: new Schema(
+        {
+          sessionId: { type: Schema.Types.ObjectId, ref: "ClassSession", required: true },
+          offeredAt: { type: Date, required: true },
+          expiresAt: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+    bookingId: { type: Schema.Types.ObjectId, ref: "Booking" },
+  },
+  { timestamps: true }
+);
+
+WaitlistEntrySchema.index({ sessionId: 1, status: 1, createdAt: 1 });
+WaitlistEntrySchema.index({ teacherId: 1, status: 1, createdAt: 1 });
+WaitlistEntrySchema.index({ studentUserId: 1, status: 1 });
+
+export type WaitlistEntry = InferSchemaType<typeof WaitlistEntrySchema> & { _id: Types.ObjectId };
+
+export const WaitlistEntryModel =
+  mongoose.models.WaitlistEntry || mongoose.model("WaitlistEntry", WaitlistEntrySchema);
@@ -0,0 +1,16 @@
+import mongoose, { Schema, type InferSchemaType, Types } from "mongoose";
+
+// Materialized credit balance of a user, updated together with every ledger entry (see postCreditTransaction).
+// The ledger stays the source of truth; `npm run wallets:reconcile` reports drift. Debits never take the balance
+// below zero, but a wallet seeded from a negative legacy ledger sum starts out negative.
+const WalletSchema = new Schema(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true, unique: true },
+    balance: { type: Number, required: true, default: 0 },
+  },
+  { timestamps: true }
+);
+
+export type Wallet = InferSchemaType<typeof WalletSchema> & { _id: Types.ObjectId };
+
+export const WalletModel = mongoose.models.Wallet || mongoose.model("Wallet", WalletSchema);
@@ -0,0 +1,77 @@
+import crypto from "crypto";
+import { env } from "../config/env";
+import { WebhookSignatureError, type PaymentEvent, type PaymentEventType, type PaymentProvider } from "./types";
+
+export type FakeOutcome = "success" | "failure" | "manual";
+
+const SIGNATURE_HEADER = "x-fake-signature";
+
+function webhookSecret(): string {
+  if (!env.PAYMENT_WEBHOOK_SECRET) throw new Error("PAYMENT_WEBHOOK_SECRET is not set");
+  return env.PAYMENT_WEBHOOK_SECRET;
+}
+
+function sign(body: string): string {
+  return crypto.createHmac("sha256", webhookSecret()).update(body).digest("hex");
+}
+
+function backendBaseUrl(): string {
+  return (env.PUBLIC_BACKEND_URL || "").trim().replace(/\/+$/, "") || `http://localhost:${env.PORT}`;
+}
+
+/** Deliver a signed event to our own webhook endpoint, like a real provider would. */
+export async function sendFakeWebhook(type: PaymentEventType, providerRef: string, failureReason?: string): Promise<void> {
+  const event: PaymentEvent = { id: `evt_${crypto.randomUUID()}`, type, providerRef, failureReason };
+  const body = JSON.stringify(event);
+  try {
+    const res = await fetch(`${backendBaseUrl()}/payments/webhook/fake`, {
+      method: "POST",
+      headers: { "content-type": "application/json", [SIGNATURE_HEADER]: sign(body) },
+      body,
+    });
+    if (!res.ok) throw new Error(`webhook responded ${res.status}`);
+  } catch (e: any) {
+    // eslint-disable-next-line no-console
+    console.warn("[payments:fake] webhook delivery failed", { providerRef, type, error: String(e?.message || e) });
+  }
+}
+
+/**
+ * Offline provider for development and tests (PAYMENT_PROVIDER=fake; never in production). Checkouts complete on their own after
+ * FAKE_PAYMENT_WEBHOOK_DELAY_SECONDS with the configured outcome (success / failure), or wait for
+ * POST /payments/:id/fake-complete when the outcome is "manual". Refunds succeed immediately.
+ */
+export const fakeProvider: PaymentProvider = {
+  name: "fake",
+
+  async createCheckout(req) {
+    const providerRef = `fake_${req.paymentId}`;
+    const outcome = (req.metadata?.simulate as FakeOutcome | undefined) ?? env.FAKE_PAYMENT_OUTCOME;
+    if (outcome !== "manual") {
+      const timer = setTimeout(() => {
+        void sendFakeWebhook(
+          outcome === "success" ? "payment.succeeded" : "payment.failed",
+          providerRef,
+          outcome === "failure" ? "card_declined" : undefined
+        );
+      }, env.FAKE_PAYMENT_WEBHOOK_DELAY_SECONDS * 1000);
+      timer.unref();
+    }
+    return { providerRef, checkoutUrl: "" };
+  },
+
+  parseWebhook(rawBody, headers) {
+    const given = String(headers[SIGNATURE_HEADER] || "");
+    const expected = sign(rawBody.toString("utf8"));
+    if (given.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(given), Buffer.from(expected))) {
+      throw new WebhookSignatureError();
+    }
+    const event = JSON.parse(rawBody.toString("utf8")) as PaymentEvent;
+    if (!event?.id || !event?.type || !event?.providerRef) return null;
+    return event;
+  },
+
+  async refund(opts) {
+    return { refundRef: `fake_refund_${opts.providerRef}_${Date.now()}`, status: "succeeded" };
+  },
+};
@@ -0,0 +1,28 @@
+import { env } from "../config/env";
+import { fakeProvider } from "./fakeProvider";
+import type { PaymentProvider } from "./types";
+
+export * from "./types";
+
+const providers: Record<string, PaymentProvider> = {
+  [fakeProvider.name]: fakeProvider,
+};
+
+/** Whether the fake provider is configured; its test hooks (fake-complete, `simulate`) only exist then. */
+export function fakePaymentsEnabled(): boolean {
+  return env.PAYMENT_PROVIDER === fakeProvider.name;
+}
+
+/** Provider by name (webhooks, refunds of existing payments). The fake provider only while it is configured. */
+export function getPaymentProvider(name: string): PaymentProvider | null {
+  if (name === fakeProvider.name && !fakePaymentsEnabled()) return null;
+  return providers[name] ?? null;
+}
+
+/** Provider used for new checkouts (PAYMENT_PROVIDER). */
+export function activePaymentProvider(): PaymentProvider {
+  if (!env.PAYMENT_PROVIDER) throw new Error("Payments are not configured (PAYMENT_PROVIDER is not set)");
+  const provider = getPaymentProvider(env.PAYMENT_PROVIDER);
+  if (!provider) throw new Error(`Unknown PAYMENT_PROVIDER "${env.PAYMENT_PROVIDER}"`);
+  return provider;
+}
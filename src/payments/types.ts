@@ -0,0 +1,45 @@
+export type CheckoutRequest = {
+  paymentId: string;
+  amountCents: number;
+  currency: string;
+  description: string;
+  // Provider-specific hints (e.g. the fake provider's simulated outcome)
+  metadata?: Record<string, string>;
+};
+
+export type CheckoutSession = {
+  providerRef: string;
+  // Where the client completes the payment (may be empty for providers without a hosted page)
+  checkoutUrl: string;
+};
+
+export type PaymentEventType = "payment.succeeded" | "payment.failed" | "refund.succeeded" | "refund.failed";
+
+export type PaymentEvent = {
+  // Provider event id, used to ignore duplicate deliveries
+  id: string;
+  type: PaymentEventType;
+  providerRef: string;
+  failureReason?: string;
+};
+
+export type RefundResult = { refundRef: string; status: "succeeded" | "pending" | "failed" };
+
+/**
+ * Payment provider lifecycle: create a checkout session, confirm it via a signed webhook, refund it.
+ * Credits are only granted when a `payment.succeeded` event arrives.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckout(req: CheckoutRequest): Promise<CheckoutSession>;
+  /** Verify the webhook signature and parse the event. Throws on an invalid signature; null for ignored events. */
+  parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): PaymentEvent | null;
+  refund(opts: { providerRef: string; amountCents: number }): Promise<RefundResult>;
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message = "Invalid webhook signature") {
+    super(message);
+    this.name = "WebhookSignatureError";
+  }
+}
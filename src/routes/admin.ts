@@ -1,11 +1,40 @@
 import { Router } from "express";
+import mongoose, { Types } from "mongoose";
 import { z } from "zod";
 import { UserModel } from "../models/User";
 import { TeacherProfileModel } from "../models/TeacherProfile";
 import { StudentProfileModel } from "../models/StudentProfile";
 import { BookingModel } from "../models/Booking";
+import { CancellationPolicyModel } from "../models/CancellationPolicy";
+import { DEFAULT_CANCELLATION_POLICY, resolveCancellationPolicy } from "../services/cancellationPolicy";
+import { CreditPackageModel } from "../models/CreditPackage";
+import { PaymentModel } from "../models/Payment";
+import { WalletModel } from "../models/Wallet";
+import { PromoCodeModel } from "../models/PromoCode";
+import { PromoRedemptionModel } from "../models/PromoRedemption";
+import { ReferralModel } from "../models/Referral";
+import { SubscriptionModel } from "../models/Subscription";
+import { SubscriptionPlanModel } from "../models/SubscriptionPlan";
+import { subscriptionRow } from "../services/subscriptions";
+import { promoCodeRow } from "../services/promoCodes";
+import { TeacherPayoutModel } from "../models/TeacherPayout";
+import {
+  buildStatement,
+  createPayoutBatches,
+  earningRow,
+  payoutRow,
+  reverseLessonEarning,
+  statementCsv,
+} from "../services/teacherEarnings";
+import { CreditTransactionModel } from "../models/CreditTransaction";
+import { getCreditBalance, postCreditTransaction } from "../services/credits";
+import { paymentRow, refundPayment } from "../services/payments";
+import { revokeAllAuthSessions } from "../services/authSessions";
+import { AdminInviteModel } from "../models/AdminInvite";
+import { adminInviteRow, createAdminInvite } from "../services/adminInvites";
 import { asyncHandler } from "../utils/asyncHandler";
 import { requireAuth, requireRole } from "../middleware/auth";
+import { idempotent } from "../middleware/idempotency";
 
 export const adminRouter = Router();
 
@@ -36,13 +65,22 @@ adminRouter.get("/users", asyncHandler(async (req, res) => {
     UserModel.countDocuments(filter),
   ]);
 
-  // Get credits for each user (from student profiles)
+  // Get credits for each user (from their wallets)
   const userIds = users.map(u => u._id);
-  const studentProfiles = await StudentProfileModel.find({ userId: { $in: userIds } })
-    .select("userId credits")
+  const wallets = await WalletModel.find({ userId: { $in: userIds } })
+    .select("userId balance")
     .lean();
 
-  const creditsMap = new Map(studentProfiles.map(p => [String(p.userId), p.credits || 0]));
+  const creditsMap = new Map(wallets.map(w => [String(w.userId), w.balance || 0]));
+  // Users without a wallet yet (no credit movement since wallets were introduced): sum their ledger
+  const withoutWallet = userIds.filter(id => !creditsMap.has(String(id)));
+  if (withoutWallet.length) {
+    const sums = await CreditTransactionModel.aggregate([
+      { $match: { userId: { $in: withoutWallet } } },
+      { $group: { _id: "$userId", balance: { $sum: "$amount" } } },
+    ]);
+    for (const row of sums) creditsMap.set(String(row._id), row.balance);
+  }
 
   const usersWithCredits = users.map(u => ({
     _id: String(u._id),
@@ -106,11 +144,16 @@ adminRouter.patch("/users/:id", asyncHandler(async (req, res) => {
   const user = await UserModel.findById(req.params.id);
   if (!user) return res.status(404).json({ error: "User not found" });
 
+  // Role changes also sign the user out: tokens carry the role, and new admins must set up 2FA
+  const signOut =
+    (!!parsed.data.status && parsed.data.status !== user.status) || (!!parsed.data.role && parsed.data.role !== user.role);
   if (parsed.data.role) user.role = parsed.data.role;
   if (parsed.data.status) user.status = parsed.data.status;
   if (parsed.data.email) user.email = parsed.data.email.trim().toLowerCase();
 
   await user.save();
+  // Signs the user out everywhere right away (tokens of inactive users are refused anyway)
+  if (signOut) await revokeAllAuthSessions(user._id, "status_change");
 
   return res.json({ user: { id: String(user._id), email: user.email, role: user.role, status: user.status } });
 }));
@@ -122,6 +165,7 @@ adminRouter.post("/users/:id/ban", asyncHandler(async (req, res) => {
 
   user.status = "banned";
   await user.save();
+  await revokeAllAuthSessions(user._id, "status_change");
 
   return res.json({ ok: true, user: { id: String(user._id), status: user.status } });
 }));
@@ -133,36 +177,117 @@ adminRouter.post("/users/:id/unban", asyncHandler(async (req, res) => {
 
   user.status = "active";
   await user.save();
+  await revokeAllAuthSessions(user._id, "status_change");
 
   return res.json({ ok: true, user: { id: String(user._id), status: user.status } });
 }));
 
-// POST /admin/users/:id/credits - Award credits
-const AwardCreditsSchema = z.object({
-  amount: z.number().int().min(1).max(1000),
-  reason: z.string().optional(),
+// GET /admin/invites - Admin invites, newest first (?status=pending|accepted|revoked)
+adminRouter.get("/invites", asyncHandler(async (req, res) => {
+  const page = Math.max(1, parseInt(String(req.query.page || "1")));
+  const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit || "20"))));
+  const filter: any = {};
+  if (req.query.status) filter.status = String(req.query.status);
+
+  const [invites, totalCount] = await Promise.all([
+    AdminInviteModel.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+    AdminInviteModel.countDocuments(filter),
+  ]);
+  const now = new Date();
+  res.json({
+    invites: (invites as any[]).map((i) => adminInviteRow(i, now)),
+    pagination: {
+      page,
+      limit,
+      totalCount,
+      totalPages: Math.ceil(totalCount / limit),
+      hasNextPage: page < Math.ceil(totalCount / limit),
+      hasPrevPage: page > 1,
+    },
+  });
+}));
+
+// POST /admin/invites - Invite someone to become an admin. The token is only returned here;
+// pass it on to the invitee, who redeems it with POST /auth/accept-invite.
+const CreateInviteSchema = z.object({ email: z.string().email() });
+
+adminRouter.post("/invites", asyncHandler(async (req, res) => {
+  const parsed = CreateInviteSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+  const email = parsed.data.email.trim().toLowerCase();
+  if (await UserModel.exists({ email })) {
+    return res.status(409).json({ error: "This email already has an account; change its role instead" });
+  }
+
+  const { invite, token } = await createAdminInvite({ email, invitedByUserId: req.user!.id });
+  return res.status(201).json({ invite: adminInviteRow(invite.toObject()), token });
+}));
+
+// DELETE /admin/invites/:id - Revoke a pending invite
+adminRouter.delete("/invites/:id", asyncHandler(async (req, res) => {
+  if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: "Invalid invite id" });
+  const invite = await AdminInviteModel.findOneAndUpdate(
+    { _id: req.params.id, status: "pending" },
+    { $set: { status: "revoked", revokedAt: new Date(), revokedByUserId: req.user!.id } },
+    { new: true }
+  ).lean();
+  if (!invite) {
+    const exists = await AdminInviteModel.exists({ _id: req.params.id });
+    return exists
+      ? res.status(409).json({ error: "Invite was already used or revoked" })
+      : res.status(404).json({ error: "Invite not found" });
+  }
+  return res.json({ invite: adminInviteRow(invite) });
+}));
+
+// POST /admin/users/:id/credits - Grant (positive amount) or deduct (negative amount) credits
+const AdjustCreditsSchema = z.object({
+  amount: z.number().int().min(-1000).max(1000).refine((n) => n !== 0, "Amount cannot be 0"),
+  reason: z.string().trim().min(1).max(300),
 });
 
-adminRouter.post("/users/:id/credits", asyncHandler(async (req, res) => {
-  const parsed = AwardCreditsSchema.safeParse(req.body);
+adminRouter.post("/users/:id/credits", idempotent, asyncHandler(async (req, res) => {
+  const parsed = AdjustCreditsSchema.safeParse(req.body);
   if (!parsed.success) {
     return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
   }
+  if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: "Invalid user id" });
 
-  const user = await UserModel.findById(req.params.id);
+  const user = await UserModel.findById(req.params.id).select("role");
   if (!user) return res.status(404).json({ error: "User not found" });
 
   if (user.role !== "student") {
     return res.status(400).json({ error: "Only students can receive credits" });
   }
 
-  const profile = await StudentProfileModel.findOne({ userId: user._id });
-  if (!profile) return res.status(404).json({ error: "Student profile not found" });
-
-  profile.credits = (profile.credits || 0) + parsed.data.amount;
-  await profile.save();
+  const { amount, reason } = parsed.data;
+  const mongoSession = await mongoose.startSession();
+  let result: any = null;
+  try {
+    await mongoSession.withTransaction(async () => {
+      const balance = await getCreditBalance(user._id, mongoSession);
+      if (amount < 0 && balance < -amount) {
+        result = { status: 409, body: { error: "The student does not have that many credits", balance } };
+        return;
+      }
+      const tx = await postCreditTransaction(
+        {
+          userId: user._id,
+          type: "admin_adjust",
+          amount,
+          meta: { method: "admin", reason, adminUserId: new Types.ObjectId(req.user!.id) },
+        },
+        mongoSession
+      );
+      result = { status: 200, body: { ok: true, credits: balance + amount, transaction: tx.toObject() } };
+    });
+  } finally {
+    mongoSession.endSession();
+  }
 
-  return res.json({ ok: true, credits: profile.credits });
+  return res.status(result.status).json(result.body);
 }));
 
 // GET /admin/stats - Dashboard statistics + chart data
@@ -273,7 +398,7 @@ adminRouter.get("/teachers", asyncHandler(async (req, res) => {
 
   const teacherIds = teachers.map(t => t._id);
   const profiles = await TeacherProfileModel.find({ userId: { $in: teacherIds } })
-    .select("userId name bio country timezone photoUrl")
+    .select("userId name bio country timezone photoUrl stats")
     .lean();
 
   const profileMap = new Map(profiles.map(p => [String(p.userId), p]));
@@ -300,6 +425,77 @@ adminRouter.get("/teachers", asyncHandler(async (req, res) => {
   });
 }));
 
+// Cancellation policy: platform default + optional per-teacher overrides
+const CancellationPolicySchema = z.object({
+  fullRefundHours: z.number().min(0).max(24 * 30),
+  partialRefundPercent: z.number().int().min(0).max(100),
+});
+
+// GET /admin/cancellation-policy - Platform cancellation policy
+adminRouter.get("/cancellation-policy", asyncHandler(async (_req, res) => {
+  const policy = await CancellationPolicyModel.findOne({ scope: "platform" }).lean();
+  return res.json({ policy: policy ?? { scope: "platform", ...DEFAULT_CANCELLATION_POLICY, isDefault: true } });
+}));
+
+// PUT /admin/cancellation-policy - Set platform cancellation policy
+adminRouter.put("/cancellation-policy", asyncHandler(async (req, res) => {
+  const parsed = CancellationPolicySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+
+  const policy = await CancellationPolicyModel.findOneAndUpdate(
+    { scope: "platform" },
+    { $set: { ...parsed.data, updatedByUserId: new Types.ObjectId(req.user!.id) } },
+    { upsert: true, new: true }
+  ).lean();
+  return res.json({ policy });
+}));
+
+async function teacherProfileIdForUser(userId: string): Promise<Types.ObjectId | null> {
+  if (!Types.ObjectId.isValid(userId)) return null;
+  const profile = (await TeacherProfileModel.findOne({ userId }).select("_id").lean()) as { _id: Types.ObjectId } | null;
+  return profile?._id ?? null;
+}
+
+// GET /admin/teachers/:id/cancellation-policy - Teacher override + effective policy (id = teacher user id)
+adminRouter.get("/teachers/:id/cancellation-policy", asyncHandler(async (req, res) => {
+  const teacherId = await teacherProfileIdForUser(req.params.id);
+  if (!teacherId) return res.status(404).json({ error: "Teacher not found" });
+
+  const [override, effective] = await Promise.all([
+    CancellationPolicyModel.findOne({ scope: "teacher", teacherId }).lean(),
+    resolveCancellationPolicy(teacherId),
+  ]);
+  return res.json({ override: override ?? null, effective });
+}));
+
+// PUT /admin/teachers/:id/cancellation-policy - Set a per-teacher override
+adminRouter.put("/teachers/:id/cancellation-policy", asyncHandler(async (req, res) => {
+  const parsed = CancellationPolicySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+  const teacherId = await teacherProfileIdForUser(req.params.id);
+  if (!teacherId) return res.status(404).json({ error: "Teacher not found" });
+
+  const override = await CancellationPolicyModel.findOneAndUpdate(
+    { scope: "teacher", teacherId },
+    { $set: { ...parsed.data, updatedByUserId: new Types.ObjectId(req.user!.id) } },
+    { upsert: true, new: true }
+  ).lean();
+  return res.json({ override });
+}));
+
+// DELETE /admin/teachers/:id/cancellation-policy - Remove override (platform policy applies again)
+adminRouter.delete("/teachers/:id/cancellation-policy", asyncHandler(async (req, res) => {
+  const teacherId = await teacherProfileIdForUser(req.params.id);
+  if (!teacherId) return res.status(404).json({ error: "Teacher not found" });
+
+  await CancellationPolicyModel.deleteOne({ scope: "teacher", teacherId });
+  return res.json({ ok: true });
+}));
+
 // GET /admin/bookings - List all bookings with pagination
 adminRouter.get("/bookings", asyncHandler(async (req, res) => {
   try {
@@ -372,3 +568,563 @@ adminRouter.get("/bookings", asyncHandler(async (req, res) => {
     });
   }
 }));
+
+// Credit package catalog
+const CreditPackageSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(1000).optional(),
+  credits: z.number().int().min(1).max(10000),
+  bonusCredits: z.number().int().min(0).max(10000).optional(),
+  // null = default CREDIT_EXPIRY_MONTHS, 0 = never expire
+  creditValidityMonths: z.number().int().min(0).max(120).nullable().optional(),
+  priceCents: z.number().int().min(1),
+  currency: z.string().trim().length(3).toLowerCase(),
+  active: z.boolean().optional(),
+  visible: z.boolean().optional(),
+  validFrom: z.string().datetime().nullable().optional(),
+  validUntil: z.string().datetime().nullable().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+function packageDates(data: { validFrom?: string | null; validUntil?: string | null }) {
+  const out: Record<string, Date | null> = {};
+  if (data.validFrom !== undefined) out.validFrom = data.validFrom ? new Date(data.validFrom) : null;
+  if (data.validUntil !== undefined) out.validUntil = data.validUntil ? new Date(data.validUntil) : null;
+  return out;
+}
+
+// GET /admin/credit-packages - All packages (including inactive and hidden)
+adminRouter.get("/credit-packages", asyncHandler(async (_req, res) => {
+  const packages = await CreditPackageModel.find({}).sort({ sortOrder: 1, priceCents: 1 }).lean();
+  return res.json({ packages });
+}));
+
+// POST /admin/credit-packages - Create a package
+adminRouter.post("/credit-packages", asyncHandler(async (req, res) => {
+  const parsed = CreditPackageSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+  const dates = packageDates(parsed.data);
+  if (dates.validFrom && dates.validUntil && dates.validUntil <= dates.validFrom) {
+    return res.status(400).json({ error: "validUntil must be after validFrom" });
+  }
+
+  const pkg = await CreditPackageModel.create({
+    ...parsed.data,
+    ...dates,
+    updatedByUserId: new Types.ObjectId(req.user!.id),
+  });
+  return res.status(201).json({ package: pkg });
+}));
+
+// PATCH /admin/credit-packages/:id - Update a package (existing payments keep the price they were made with)
+adminRouter.patch("/credit-packages/:id", asyncHandler(async (req, res) => {
+  if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: "Invalid package id" });
+  const parsed = CreditPackageSchema.partial().safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+
+  const pkg = await CreditPackageModel.findById(req.params.id);
+  if (!pkg) return res.status(404).json({ error: "Package not found" });
+  pkg.set({ ...parsed.data, ...packageDates(parsed.data), updatedByUserId: new Types.ObjectId(req.user!.id) });
+  if (pkg.validFrom && pkg.validUntil && pkg.validUntil <= pkg.validFrom) {
+    return res.status(400).json({ error: "validUntil must be after validFrom" });
+  }
+  await pkg.save();
+  return res.json({ package: pkg });
+}));
+
+// DELETE /admin/credit-packages/:id - Retire a package (kept for payment history)
+adminRouter.delete("/credit-packages/:id", asyncHandler(async (req, res) => {
+  if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: "Invalid package id" });
+  const pkg = await CreditPackageModel.findByIdAndUpdate(
+    req.params.id,
+    { $set: { active: false, visible: false, updatedByUserId: new Types.ObjectId(req.user!.id) } },
+    { new: true }
+  ).lean();
+  if (!pkg) return res.status(404).json({ error: "Package not found" });
+  return res.json({ package: pkg });
+}));
+
+// Subscription plans
+const SubscriptionPlanSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(1000).optional(),
+  creditsPerPeriod: z.number().int().min(1).max(10000),
+  periodMonths: z.number().int().min(1).max(12).optional(),
+  priceCents: z.number().int().min(1),
+  currency: z.string().trim().length(3).toLowerCase(),
+  rolloverCap: z.number().int().min(0).max(10000).optional(),
+  active: z.boolean().optional(),
+  visible: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+// GET /admin/subscription-plans - All plans (including inactive and hidden)
+adminRouter.get("/subscription-plans", asyncHandler(async (_req, res) => {
+  const plans = await SubscriptionPlanModel.find({}).sort({ sortOrder: 1, priceCents: 1 }).lean();
+  return res.json({ plans });
+}));
+
+// POST /admin/subscription-plans - Create a plan
+adminRouter.post("/subscription-plans", asyncHandler(async (req, res) => {
+  const parsed = SubscriptionPlanSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+  const plan = await SubscriptionPlanModel.create({ ...parsed.data, updatedByUserId: new Types.ObjectId(req.user!.id) });
+  return res.status(201).json({ plan });
+}));
+
+// PATCH /admin/subscription-plans/:id - Update a plan (existing subscriptions keep the terms they started with)
+adminRouter.patch("/subscription-plans/:id", asyncHandler(async (req, res) => {
+  if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: "Invalid plan id" });
+  const parsed = SubscriptionPlanSchema.partial().safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+
+  const plan = await SubscriptionPlanModel.findByIdAndUpdate(
+    req.params.id,
+    { $set: { ...parsed.data, updatedByUserId: new Types.ObjectId(req.user!.id) } },
+    { new: true, runValidators: true }
+  ).lean();
+  if (!plan) return res.status(404).json({ error: "Plan not found" });
+  return res.json({ plan });
+}));
+
+// DELETE /admin/subscription-plans/:id - Retire a plan (no new subscriptions; existing ones keep renewing)
+adminRouter.delete("/subscription-plans/:id", asyncHandler(async (req, res) => {
+  if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: "Invalid plan id" });
+  const plan = await SubscriptionPlanModel.findByIdAndUpdate(
+    req.params.id,
+    { $set: { active: false, visible: false, updatedByUserId: new Types.ObjectId(req.user!.id) } },
+    { new: true }
+  ).lean();
+  if (!plan) return res.status(404).json({ error: "Plan not found" });
+  return res.json({ plan });
+}));
+
+// GET /admin/subscriptions - Subscriptions, newest first (?status=&userId=&planId=)
+adminRouter.get("/subscriptions", asyncHandler(async (req, res) => {
+  const page = Math.max(1, parseInt(String(req.query.page || "1")));
+  const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit || "20"))));
+  const filter: any = {};
+  if (req.query.status) filter.status = String(req.query.status);
+  if (req.query.userId && Types.ObjectId.isValid(String(req.query.userId))) filter.userId = String(req.query.userId);
+  if (req.query.planId && Types.ObjectId.isValid(String(req.query.planId))) filter.planId = String(req.query.planId);
+
+  const [subscriptions, totalCount] = await Promise.all([
+    SubscriptionModel.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+    SubscriptionModel.countDocuments(filter),
+  ]);
+  const users = await UserModel.find({ _id: { $in: (subscriptions as any[]).map((s) => s.userId) } })
+    .select("email")
+    .lean();
+  const emailById = new Map((users as any[]).map((u) => [String(u._id), u.email]));
+
+  res.json({
+    subscriptions: (subscriptions as any[]).map((s) => ({
+      ...subscriptionRow(s),
+      userId: String(s.userId),
+      email: emailById.get(String(s.userId)) ?? "",
+    })),
+    pagination: {
+      page,
+      limit,
+      totalCount,
+      totalPages: Math.ceil(totalCount / limit),
+      hasNextPage: page < Math.ceil(totalCount / limit),
+      hasPrevPage: page > 1,
+    },
+  });
+}));
+
+// GET /admin/payments - Payments, newest first (?status=&userId=)
+adminRouter.get("/payments", asyncHandler(async (req, res) => {
+  const page = Math.max(1, parseInt(String(req.query.page || "1")));
+  const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit || "20"))));
+  const filter: any = {};
+  if (req.query.status) filter.status = String(req.query.status);
+  if (req.query.userId && Types.ObjectId.isValid(String(req.query.userId))) filter.userId = String(req.query.userId);
+
+  const [payments, totalCount] = await Promise.all([
+    PaymentModel.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+    PaymentModel.countDocuments(filter),
+  ]);
+  res.json({
+    payments: (payments as any[]).map((p) => ({ ...paymentRow(p), userId: String(p.userId) })),
+    pagination: {
+      page,
+      limit,
+      totalCount,
+      totalPages: Math.ceil(totalCount / limit),
+      hasNextPage: page < Math.ceil(totalCount / limit),
+      hasPrevPage: page > 1,
+    },
+  });
+}));
+
+// POST /admin/payments/:id/refund - Refund a payment and remove its credits
+adminRouter.post("/payments/:id/refund", asyncHandler(async (req, res) => {
+  const result = await refundPayment(req.params.id, req.user!.id);
+  if (!result.ok) return res.status(result.status).json({ error: result.error });
+  res.json({ payment: paymentRow(result.value) });
+}));
+
+// Promo codes
+const PromoCodeSchema = z.object({
+  code: z.string().trim().min(3).max(40).regex(/^[A-Za-z0-9_-]+$/, "Letters, digits, - and _ only"),
+  description: z.string().trim().max(500).optional(),
+  kind: z.enum(["percent_off", "bonus_credits"]),
+  percentOff: z.number().int().min(1).max(99).optional(),
+  bonusCredits: z.number().int().min(1).max(10000).optional(),
+  maxRedemptions: z.number().int().min(1).nullable().optional(),
+  perUserLimit: z.number().int().min(1).max(100).optional(),
+  active: z.boolean().optional(),
+  validFrom: z.string().datetime().nullable().optional(),
+  validUntil: z.string().datetime().nullable().optional(),
+});
+
+// The kind decides which value is required
+function promoValueError(p: { kind?: string; percentOff?: number | null; bonusCredits?: number | null }): string | null {
+  if (p.kind === "percent_off" && !p.percentOff) return "percentOff is required for percent_off codes";
+  if (p.kind === "bonus_credits" && !p.bonusCredits) return "bonusCredits is required for bonus_credits codes";
+  return null;
+}
+
+// GET /admin/promo-codes - All promo codes
+adminRouter.get("/promo-codes", asyncHandler(async (_req, res) => {
+  const codes = await PromoCodeModel.find({}).sort({ createdAt: -1 }).lean();
+  return res.json({ promoCodes: (codes as any[]).map(promoCodeRow) });
+}));
+
+// POST /admin/promo-codes - Create a promo code
+adminRouter.post("/promo-codes", asyncHandler(async (req, res) => {
+  const parsed = PromoCodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+  const valueError = promoValueError(parsed.data);
+  if (valueError) return res.status(400).json({ error: valueError });
+  const dates = packageDates(parsed.data);
+  if (dates.validFrom && dates.validUntil && dates.validUntil <= dates.validFrom) {
+    return res.status(400).json({ error: "validUntil must be after validFrom" });
+  }
+
+  const code = parsed.data.code.toUpperCase();
+  if (await PromoCodeModel.exists({ code })) return res.status(409).json({ error: "Promo code already exists" });
+  const promo = await PromoCodeModel.create({
+    ...parsed.data,
+    ...dates,
+    code,
+    updatedByUserId: new Types.ObjectId(req.user!.id),
+  });
+  return res.status(201).json({ promoCode: promoCodeRow(promo.toObject()) });
+}));
+
+// PATCH /admin/promo-codes/:id - Update a promo code (the code itself cannot change)
+adminRouter.patch("/promo-codes/:id", asyncHandler(async (req, res) => {
+  if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: "Invalid promo code id" });
+  const parsed = PromoCodeSchema.omit({ code: true }).partial().safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+
+  const promo = await PromoCodeModel.findById(req.params.id);
+  if (!promo) return res.status(404).json({ error: "Promo code not found" });
+  promo.set({ ...parsed.data, ...packageDates(parsed.data), updatedByUserId: new Types.ObjectId(req.user!.id) });
+  const valueError = promoValueError(promo);
+  if (valueError) return res.status(400).json({ error: valueError });
+  if (promo.validFrom && promo.validUntil && promo.validUntil <= promo.validFrom) {
+    return res.status(400).json({ error: "validUntil must be after validFrom" });
+  }
+  await promo.save();
+  return res.json({ promoCode: promoCodeRow(promo.toObject()) });
+}));
+
+// DELETE /admin/promo-codes/:id - Deactivate a promo code (kept for redemption history)
+adminRouter.delete("/promo-codes/:id", asyncHandler(async (req, res) => {
+  if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: "Invalid promo code id" });
+  const promo = await PromoCodeModel.findByIdAndUpdate(
+    req.params.id,
+    { $set: { active: false, updatedByUserId: new Types.ObjectId(req.user!.id) } },
+    { new: true }
+  ).lean();
+  if (!promo) return res.status(404).json({ error: "Promo code not found" });
+  return res.json({ promoCode: promoCodeRow(promo) });
+}));
+
+// GET /admin/promo-codes/:id/redemptions - Uses of a promo code with totals (?status=)
+adminRouter.get("/promo-codes/:id/redemptions", asyncHandler(async (req, res) => {
+  if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: "Invalid promo code id" });
+  const promoCodeId = new Types.ObjectId(req.params.id);
+  const promo = await PromoCodeModel.findById(promoCodeId).lean();
+  if (!promo) return res.status(404).json({ error: "Promo code not found" });
+
+  const page = Math.max(1, parseInt(String(req.query.page || "1")));
+  const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit || "20"))));
+  const filter: any = { promoCodeId };
+  if (req.query.status) filter.status = String(req.query.status);
+
+  const [redemptions, totalCount, totals] = await Promise.all([
+    PromoRedemptionModel.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+    PromoRedemptionModel.countDocuments(filter),
+    PromoRedemptionModel.aggregate([
+      { $match: { promoCodeId, status: "redeemed" } },
+      {
+        $group: {
+          _id: null,
+          redeemed: { $sum: 1 },
+          discountCents: { $sum: "$discountCents" },
+          bonusCredits: { $sum: "$bonusCredits" },
+        },
+      },
+    ]),
+  ]);
+  const users = await UserModel.find({ _id: { $in: (redemptions as any[]).map((r) => r.userId) } })
+    .select("email")
+    .lean();
+  const emailById = new Map((users as any[]).map((u) => [String(u._id), u.email]));
+
+  res.json({
+    promoCode: promoCodeRow(promo),
+    totals: {
+      redeemed: totals[0]?.redeemed ?? 0,
+      discountCents: totals[0]?.discountCents ?? 0,
+      bonusCredits: totals[0]?.bonusCredits ?? 0,
+    },
+    redemptions: (redemptions as any[]).map((r) => ({
+      id: String(r._id),
+      userId: String(r.userId),
+      email: emailById.get(String(r.userId)) ?? "",
+      paymentId: String(r.paymentId),
+      status: r.status,
+      discountCents: r.discountCents,
+      bonusCredits: r.bonusCredits,
+      createdAt: r.createdAt,
+      redeemedAt: r.redeemedAt ?? null,
+    })),
+    pagination: {
+      page,
+      limit,
+      totalCount,
+      totalPages: Math.ceil(totalCount / limit),
+      hasNextPage: page < Math.ceil(totalCount / limit),
+      hasPrevPage: page > 1,
+    },
+  });
+}));
+
+// GET /admin/referrals - Referrals, newest first, with totals (?status=&referrerUserId=)
+adminRouter.get("/referrals", asyncHandler(async (req, res) => {
+  const page = Math.max(1, parseInt(String(req.query.page || "1")));
+  const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit || "20"))));
+  const filter: any = {};
+  if (req.query.status) filter.status = String(req.query.status);
+  if (req.query.referrerUserId && Types.ObjectId.isValid(String(req.query.referrerUserId))) {
+    filter.referrerUserId = new Types.ObjectId(String(req.query.referrerUserId));
+  }
+
+  const [referrals, totalCount, totals] = await Promise.all([
+    ReferralModel.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+    ReferralModel.countDocuments(filter),
+    ReferralModel.aggregate([
+      { $match: filter },
+      { $group: { _id: "$status", count: { $sum: 1 }, credits: { $sum: "$rewardCredits" } } },
+    ]),
+  ]);
+  const userIds = (referrals as any[]).flatMap((r) => [r.referrerUserId, r.referredUserId]);
+  const users = await UserModel.find({ _id: { $in: userIds } }).select("email").lean();
+  const emailById = new Map((users as any[]).map((u) => [String(u._id), u.email]));
+  const byStatus = new Map(totals.map((t: any) => [String(t._id), t]));
+
+  res.json({
+    totals: {
+      pending: byStatus.get("pending")?.count ?? 0,
+      rewarded: byStatus.get("rewarded")?.count ?? 0,
+      creditsRewarded: byStatus.get("rewarded")?.credits ?? 0,
+    },
+    referrals: (referrals as any[]).map((r) => ({
+      id: String(r._id),
+      code: r.code,
+      referrerUserId: String(r.referrerUserId),
+      referrerEmail: emailById.get(String(r.referrerUserId)) ?? "",
+      referredUserId: String(r.referredUserId),
+      referredEmail: emailById.get(String(r.referredUserId)) ?? "",
+      status: r.status,
+      rewardCredits: r.rewardCredits ?? 0,
+      createdAt: r.createdAt,
+      rewardedAt: r.rewardedAt ?? null,
+    })),
+    pagination: {
+      page,
+      limit,
+      totalCount,
+      totalPages: Math.ceil(totalCount / limit),
+      hasNextPage: page < Math.ceil(totalCount / limit),
+      hasPrevPage: page > 1,
+    },
+  });
+}));
+
+// POST /admin/bookings/:id/refund - Refund credits for a completed (or no-show) lesson and reverse the teacher's earning
+const LessonRefundSchema = z.object({
+  // Defaults to everything not refunded yet
+  credits: z.number().int().min(1).optional(),
+  reason: z.string().trim().min(1).max(300),
+});
+
+adminRouter.post("/bookings/:id/refund", idempotent, asyncHandler(async (req, res) => {
+  const parsed = LessonRefundSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+  if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: "Invalid booking id" });
+
+  const mongoSession = await mongoose.startSession();
+  let result: any = null;
+  try {
+    await mongoSession.withTransaction(async () => {
+      const booking = await BookingModel.findById(req.params.id).session(mongoSession);
+      if (!booking) {
+        result = { status: 404, body: { error: "Booking not found" } };
+        return;
+      }
+      if (!["completed", "no_show"].includes(booking.status)) {
+        result = { status: 409, body: { error: "Only completed or no-show lessons can be refunded here" } };
+        return;
+      }
+      const refundable = booking.priceCredits - Number(booking.refundCredits ?? 0);
+      const credits = parsed.data.credits ?? refundable;
+      if (credits <= 0 || credits > refundable) {
+        result = { status: 409, body: { error: "Nothing left to refund", refundable } };
+        return;
+      }
+
+      await postCreditTransaction(
+        {
+          userId: booking.studentUserId,
+          type: "refund",
+          amount: credits,
+          meta: { method: "admin", reason: parsed.data.reason, adminUserId: new Types.ObjectId(req.user!.id) },
+          related: { bookingId: booking._id, sessionId: booking.sessionId },
+        },
+        mongoSession,
+        { inheritExpiryFrom: { type: "spend", "related.bookingId": booking._id } }
+      );
+      booking.refundCredits = Number(booking.refundCredits ?? 0) + credits;
+      await booking.save({ session: mongoSession });
+      const reversal = await reverseLessonEarning(booking._id, credits, parsed.data.reason, mongoSession);
+
+      result = {
+        status: 200,
+        body: {
+          ok: true,
+          refundCredits: credits,
+          totalRefundedCredits: booking.refundCredits,
+          earningReversal: reversal ? earningRow(reversal.toObject()) : null,
+        },
+      };
+    });
+  } finally {
+    mongoSession.endSession();
+  }
+
+  return res.status(result.status).json(result.body);
+}));
+
+// GET /admin/payouts - Teacher payout batches, newest first (?status=&teacherId=)
+adminRouter.get("/payouts", asyncHandler(async (req, res) => {
+  const page = Math.max(1, parseInt(String(req.query.page || "1")));
+  const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit || "20"))));
+  const filter: any = {};
+  if (req.query.status) filter.status = String(req.query.status);
+  if (req.query.teacherId && Types.ObjectId.isValid(String(req.query.teacherId))) filter.teacherId = String(req.query.teacherId);
+
+  const [payouts, totalCount] = await Promise.all([
+    TeacherPayoutModel.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+    TeacherPayoutModel.countDocuments(filter),
+  ]);
+  const teachers = await TeacherProfileModel.find({ _id: { $in: (payouts as any[]).map((p) => p.teacherId) } })
+    .select("name")
+    .lean();
+  const nameById = new Map((teachers as any[]).map((t) => [String(t._id), t.name || ""]));
+
+  res.json({
+    payouts: (payouts as any[]).map((p) => ({ ...payoutRow(p), teacherName: nameById.get(String(p.teacherId)) ?? "" })),
+    pagination: {
+      page,
+      limit,
+      totalCount,
+      totalPages: Math.ceil(totalCount / limit),
+      hasNextPage: page < Math.ceil(totalCount / limit),
+      hasPrevPage: page > 1,
+    },
+  });
+}));
+
+// POST /admin/payouts - Batch all unpaid teacher earnings created before `periodEnd` (default: now)
+const CreatePayoutsSchema = z.object({ periodEnd: z.string().datetime().optional() });
+
+adminRouter.post("/payouts", asyncHandler(async (req, res) => {
+  const parsed = CreatePayoutsSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+  const now = new Date();
+  const periodEnd = parsed.data.periodEnd ? new Date(parsed.data.periodEnd) : now;
+  if (periodEnd > now) return res.status(400).json({ error: "periodEnd cannot be in the future" });
+
+  const payouts = await createPayoutBatches(periodEnd, new Types.ObjectId(req.user!.id));
+  res.status(201).json({ payouts: payouts.map(payoutRow) });
+}));
+
+// POST /admin/payouts/:id/mark-paid - Record that a payout batch was sent
+const MarkPayoutPaidSchema = z.object({ reference: z.string().trim().max(200).optional() });
+
+adminRouter.post("/payouts/:id/mark-paid", asyncHandler(async (req, res) => {
+  if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: "Invalid payout id" });
+  const parsed = MarkPayoutPaidSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  }
+
+  const payout = await TeacherPayoutModel.findOneAndUpdate(
+    { _id: req.params.id, status: "pending" },
+    {
+      $set: {
+        status: "paid",
+        paidAt: new Date(),
+        paidByUserId: new Types.ObjectId(req.user!.id),
+        reference: parsed.data.reference ?? "",
+      },
+    },
+    { new: true }
+  ).lean();
+  if (!payout) {
+    const exists = await TeacherPayoutModel.exists({ _id: req.params.id });
+    return exists
+      ? res.status(409).json({ error: "Payout is already paid" })
+      : res.status(404).json({ error: "Payout not found" });
+  }
+  res.json({ payout: payoutRow(payout) });
+}));
+
+// GET /admin/teachers/:id/statements/:month - A teacher's monthly statement (:id = teacher profile id; ?format=csv)
+adminRouter.get("/teachers/:id/statements/:month", asyncHandler(async (req, res) => {
+  if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: "Invalid teacher id" });
+  if (!/^\d{4}-\d{2}$/.test(req.params.month)) return res.status(400).json({ error: "Invalid month (expected YYYY-MM)" });
+
+  const statement = await buildStatement(new Types.ObjectId(req.params.id), req.params.month);
+  if (!statement) return res.status(404).json({ error: "Teacher not found" });
+
+  if (req.query.format === "csv") {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="statement-${req.params.id}-${statement.month}.csv"`);
+    return res.send(statementCsv(statement));
+  }
+  res.json({ statement });
+}));
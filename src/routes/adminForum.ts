@@ -9,6 +9,7 @@ import { ForumAttachmentModel } from "../models/ForumAttachment";
 import { ForumCreditTransactionModel } from "../models/ForumCreditTransaction";
 import { ForumNotificationModel } from "../models/ForumNotification";
 import { UserModel } from "../models/User";
+import { revokeAllAuthSessions } from "../services/authSessions";
 
 export const adminForumRouter = Router();
 
@@ -217,6 +218,7 @@ adminForumRouter.post(
     const id = String(req.params.id || "");
     if (!Types.ObjectId.isValid(id)) return res.status(400).json({ error: "Invalid id" });
     await UserModel.updateOne({ _id: new Types.ObjectId(id) }, { $set: { status: "disabled" } });
+    await revokeAllAuthSessions(id, "status_change");
     return res.json({ ok: true });
   })
 );
@@ -227,6 +229,7 @@ adminForumRouter.post(
     const id = String(req.params.id || "");
     if (!Types.ObjectId.isValid(id)) return res.status(400).json({ error: "Invalid id" });
     await UserModel.updateOne({ _id: new Types.ObjectId(id) }, { $set: { status: "active" } });
+    await revokeAllAuthSessions(id, "status_change");
     return res.json({ ok: true });
   })
 );
@@ -3,21 +3,39 @@ import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
 import { z } from "zod";
 import crypto from "crypto";
+import { Types } from "mongoose";
 
 import { env } from "../config/env";
-import { UserModel, type UserRole } from "../models/User";
+import { UserModel } from "../models/User";
 import { TeacherProfileModel } from "../models/TeacherProfile";
 import { StudentProfileModel } from "../models/StudentProfile";
 import { EmailVerificationCodeModel } from "../models/EmailVerificationCode";
 import { asyncHandler } from "../utils/asyncHandler";
-import { sendVerificationCodeEmail } from "../services/mailer";
+import { sendPasswordResetEmail, sendVerificationCodeEmail } from "../services/mailer";
+import { requireAuth, verifyAuthToken } from "../middleware/auth";
+import { byEmail, byIp, rateLimit, tooManyRequests } from "../middleware/rateLimit";
+import { clearLoginFailures, loginLockedForSeconds, recordLoginFailure } from "../services/rateLimiter";
+import {
+  refreshAuthSession,
+  revokeAllAuthSessions,
+  revokeAuthSession,
+  revokeByRefreshToken,
+  sessionMeta,
+  sessionRow,
+  startAuthSession,
+  type SessionMeta,
+} from "../services/authSessions";
+import { signTwoFactorChallenge, twoFactorRequired } from "../services/twoFactor";
+import { acceptAdminInvite } from "../services/adminInvites";
+import { AuthSessionModel } from "../models/AuthSession";
 import { google } from "googleapis";
 import { encryptString } from "../utils/crypto";
 
 export const authRouter = Router();
 
+// Admin accounts come from invites (POST /auth/accept-invite) or the admin:create script, never from sign-up.
 const RegisterSchema = z.object({
-  role: z.enum(["student", "teacher", "admin"]),
+  role: z.enum(["student", "teacher"]),
   email: z.string().email(),
   password: z.string().min(6),
 });
@@ -30,7 +48,36 @@ function hashCode(code: string) {
   return crypto.createHash("sha256").update(`${code}:${env.EMAIL_CODE_PEPPER}`).digest("hex");
 }
 
-authRouter.post("/register", asyncHandler(async (req, res) => {
+// Sliding-window limits for the unauthenticated endpoints, per client IP and per email address
+function perIp(name: string, max: number, windowMinutes: number) {
+  return { rule: { name: `${name}-ip`, max, windowSeconds: windowMinutes * 60 }, by: byIp };
+}
+
+function perEmail(name: string, max: number, windowMinutes: number) {
+  return { rule: { name: `${name}-email`, max, windowSeconds: windowMinutes * 60 }, by: byEmail };
+}
+
+/**
+ * Open a session once the password (or email code) is accepted, unless a second factor is still needed:
+ * users with 2FA get a challenge for POST /auth/2fa/verify, admins without it one for enrollment.
+ */
+async function signInResult(user: any, meta: SessionMeta) {
+  const userRow = { id: String(user._id), role: user.role, email: user.email };
+  if (user.twoFactor?.enabled) {
+    return { twoFactorRequired: true, challengeToken: signTwoFactorChallenge(user, "login"), user: userRow };
+  }
+  if (twoFactorRequired(user.role)) {
+    return {
+      twoFactorRequired: true,
+      twoFactorSetupRequired: true,
+      challengeToken: signTwoFactorChallenge(user, "setup"),
+      user: userRow,
+    };
+  }
+  return { ...(await startAuthSession(user, meta)), user: userRow };
+}
+
+authRouter.post("/register", rateLimit(perIp("register", 10, 60), perEmail("register", 5, 60)), asyncHandler(async (req, res) => {
   const parsed = RegisterSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
 
@@ -49,7 +96,7 @@ authRouter.post("/register", asyncHandler(async (req, res) => {
     const code = make6DigitCode();
     const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
     await EmailVerificationCodeModel.findOneAndUpdate(
-      { userId: existing._id },
+      { userId: existing._id, purpose: "verify_email" },
       {
         $set: {
           userId: existing._id,
@@ -100,7 +147,7 @@ authRouter.post("/register", asyncHandler(async (req, res) => {
   const code = make6DigitCode();
   const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
   await EmailVerificationCodeModel.findOneAndUpdate(
-    { userId: user._id },
+    { userId: user._id, purpose: "verify_email" },
     {
       $set: {
         userId: user._id,
@@ -136,7 +183,7 @@ const VerifySchema = z.object({
   code: z.string().regex(/^\d{6}$/),
 });
 
-authRouter.post("/verify-email", asyncHandler(async (req, res) => {
+authRouter.post("/verify-email", rateLimit(perIp("verify-email", 30, 15), perEmail("verify-email", 10, 15)), asyncHandler(async (req, res) => {
   const parsed = VerifySchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
 
@@ -145,14 +192,10 @@ authRouter.post("/verify-email", asyncHandler(async (req, res) => {
 
   const user = await UserModel.findOne({ email: normalizedEmail });
   if (!user) return res.status(404).json({ error: "Account not found" });
-  if (user.verifiedEmail) {
-    const token = jwt.sign({ sub: String(user._id), role: user.role as UserRole, email: user.email }, env.JWT_SECRET, {
-      expiresIn: "7d",
-    });
-    return res.json({ token, user: { id: String(user._id), role: user.role, email: user.email } });
-  }
+  // Signing in takes the password once the address is verified (an email alone must not open a session)
+  if (user.verifiedEmail) return res.status(409).json({ error: "Email already verified. Please log in." });
 
-  const record = await EmailVerificationCodeModel.findOne({ userId: user._id });
+  const record = await EmailVerificationCodeModel.findOne({ userId: user._id, purpose: "verify_email" });
   if (!record) return res.status(400).json({ error: "No verification code. Please resend." });
   if (record.expiresAt.getTime() < Date.now()) return res.status(400).json({ error: "Code expired. Please resend." });
   if (record.attempts >= 5) return res.status(429).json({ error: "Too many attempts. Please resend code." });
@@ -167,18 +210,16 @@ authRouter.post("/verify-email", asyncHandler(async (req, res) => {
   user.verifiedEmail = true;
   await user.save();
   await EmailVerificationCodeModel.deleteOne({ _id: record._id });
+  if (user.status !== "active") return res.status(403).json({ error: "Account disabled" });
 
-  const token = jwt.sign({ sub: String(user._id), role: user.role as UserRole, email: user.email }, env.JWT_SECRET, {
-    expiresIn: "7d",
-  });
-  return res.json({ token, user: { id: String(user._id), role: user.role, email: user.email } });
+  return res.json(await signInResult(user, sessionMeta(req)));
 }));
 
 const ResendSchema = z.object({
   email: z.string().email(),
 });
 
-authRouter.post("/resend-code", asyncHandler(async (req, res) => {
+authRouter.post("/resend-code", rateLimit(perIp("resend-code", 10, 60), perEmail("resend-code", 5, 60)), asyncHandler(async (req, res) => {
   const parsed = ResendSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
 
@@ -187,7 +228,7 @@ authRouter.post("/resend-code", asyncHandler(async (req, res) => {
   if (!user) return res.status(404).json({ error: "Account not found" });
   if (user.verifiedEmail) return res.json({ ok: true });
 
-  const existing = await EmailVerificationCodeModel.findOne({ userId: user._id });
+  const existing = await EmailVerificationCodeModel.findOne({ userId: user._id, purpose: "verify_email" });
   if (existing?.lastSentAt && Date.now() - existing.lastSentAt.getTime() < 30 * 1000) {
     return res.status(429).json({ error: "Please wait before resending." });
   }
@@ -195,7 +236,7 @@ authRouter.post("/resend-code", asyncHandler(async (req, res) => {
   const code = make6DigitCode();
   const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
   await EmailVerificationCodeModel.findOneAndUpdate(
-    { userId: user._id },
+    { userId: user._id, purpose: "verify_email" },
     {
       $set: {
         userId: user._id,
@@ -229,29 +270,197 @@ const LoginSchema = z.object({
   password: z.string().min(1),
 });
 
-authRouter.post("/login", asyncHandler(async (req, res) => {
+authRouter.post("/login", rateLimit(perIp("login", 30, 15), perEmail("login", 10, 15)), asyncHandler(async (req, res) => {
   const parsed = LoginSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
 
   const { email, password } = parsed.data;
   const normalizedEmail = email.trim().toLowerCase();
 
+  const lockedFor = await loginLockedForSeconds(normalizedEmail);
+  if (lockedFor) return tooManyRequests(res, lockedFor, "Too many failed sign-in attempts. Please try again later.");
+
+  const invalidCredentials = async () => {
+    const lockout = await recordLoginFailure(normalizedEmail);
+    if (lockout) return tooManyRequests(res, lockout, "Too many failed sign-in attempts. Please try again later.");
+    return res.status(401).json({ error: "Invalid credentials" });
+  };
+
   const user = await UserModel.findOne({ email: normalizedEmail });
-  if (!user) return res.status(401).json({ error: "Invalid credentials" });
+  if (!user) return invalidCredentials();
   if (user.status !== "active") return res.status(403).json({ error: "Account disabled" });
   if (!user.verifiedEmail) return res.status(403).json({ error: "Email not verified" });
 
   const ok = await bcrypt.compare(password, user.passwordHash);
-  if (!ok) return res.status(401).json({ error: "Invalid credentials" });
+  if (!ok) return invalidCredentials();
+  await clearLoginFailures(normalizedEmail);
 
-  user.lastLoginAt = new Date();
-  await user.save();
+  const result = await signInResult(user, sessionMeta(req));
+  if (!("twoFactorRequired" in result)) {
+    user.lastLoginAt = new Date();
+    await user.save();
+  }
+  return res.json(result);
+}));
+
+const ForgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+// Always answers { ok: true } so the response does not tell whether an account exists.
+authRouter.post("/forgot-password", rateLimit(perIp("forgot-password", 10, 60), perEmail("forgot-password", 5, 60)), asyncHandler(async (req, res) => {
+  const parsed = ForgotPasswordSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
 
-  const token = jwt.sign({ sub: String(user._id), role: user.role as UserRole, email: user.email }, env.JWT_SECRET, {
-    expiresIn: "7d",
+  const normalizedEmail = parsed.data.email.trim().toLowerCase();
+  const user = await UserModel.findOne({ email: normalizedEmail });
+  if (!user || user.status !== "active") return res.json({ ok: true });
+
+  const existing = await EmailVerificationCodeModel.findOne({ userId: user._id, purpose: "password_reset" });
+  if (existing?.lastSentAt && Date.now() - existing.lastSentAt.getTime() < 30 * 1000) return res.json({ ok: true });
+
+  const code = make6DigitCode();
+  const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
+  await EmailVerificationCodeModel.findOneAndUpdate(
+    { userId: user._id, purpose: "password_reset" },
+    {
+      $set: {
+        userId: user._id,
+        email: user.email,
+        codeHash: hashCode(code),
+        expiresAt,
+        attempts: 0,
+        lastSentAt: new Date(),
+      },
+    },
+    { upsert: true, new: true }
+  );
+  // Not awaited: waiting for SMTP would make known emails answer measurably slower than unknown ones.
+  // The dev fallback only logs the code; it is never returned here.
+  sendPasswordResetEmail(user.email, code).catch((err) => {
+    console.error("[auth] Failed to send password reset email:", err);
   });
+  return res.json({ ok: true });
+}));
+
+const ResetPasswordSchema = z.object({
+  email: z.string().email(),
+  code: z.string().regex(/^\d{6}$/),
+  password: z.string().min(6),
+});
+
+// Set a new password with the emailed code. Signs out every existing session (tokenVersion is bumped).
+authRouter.post("/reset-password", rateLimit(perIp("reset-password", 20, 15), perEmail("reset-password", 10, 15)), asyncHandler(async (req, res) => {
+  const parsed = ResetPasswordSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+
+  const normalizedEmail = parsed.data.email.trim().toLowerCase();
+  const invalid = () => res.status(400).json({ error: "Invalid or expired code" });
+
+  const user = await UserModel.findOne({ email: normalizedEmail });
+  if (!user || user.status !== "active") return invalid();
+
+  const record = await EmailVerificationCodeModel.findOne({ userId: user._id, purpose: "password_reset" });
+  if (!record || record.expiresAt.getTime() < Date.now()) return invalid();
+  if (record.codeHash !== hashCode(parsed.data.code)) {
+    record.attempts += 1;
+    // Too many wrong guesses burn the code; a new one has to be requested
+    if (record.attempts >= 5) await EmailVerificationCodeModel.deleteOne({ _id: record._id });
+    else await record.save();
+    return invalid();
+  }
+  const used = await EmailVerificationCodeModel.deleteOne({ _id: record._id });
+  if (used.deletedCount !== 1) return invalid();
+
+  user.passwordHash = await bcrypt.hash(parsed.data.password, 10);
+  user.passwordChangedAt = new Date();
+  user.tokenVersion = Number(user.tokenVersion ?? 0) + 1;
+  // Receiving the code proves the address belongs to the user
+  user.verifiedEmail = true;
+  await user.save();
+  await revokeAllAuthSessions(user._id, "password_reset");
+
+  return res.json({ ok: true });
+}));
+
+const AcceptInviteSchema = z.object({
+  token: z.string().min(1).max(2000),
+  password: z.string().min(6),
+});
+
+// Create an admin account from an invite (POST /admin/invites). The invite works once; the email is the
+// invited one and counts as verified. Signing in continues with the mandatory 2FA enrollment.
+authRouter.post("/accept-invite", rateLimit(perIp("accept-invite", 10, 15)), asyncHandler(async (req, res) => {
+  const parsed = AcceptInviteSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+
+  const result = await acceptAdminInvite(parsed.data.token, parsed.data.password);
+  if (!result.ok) return res.status(result.status).json({ error: result.error });
+  return res.status(201).json(await signInResult(result.value, sessionMeta(req)));
+}));
+
+const RefreshSchema = z.object({
+  refreshToken: z.string().min(1).max(200),
+});
+
+// New access token + refresh token for a session. The refresh token can be used once.
+authRouter.post("/refresh", asyncHandler(async (req, res) => {
+  const parsed = RefreshSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+
+  const tokens = await refreshAuthSession(parsed.data.refreshToken, sessionMeta(req));
+  if (!tokens) return res.status(401).json({ error: "Invalid refresh token" });
+  return res.json(tokens);
+}));
+
+const LogoutSchema = z.object({
+  refreshToken: z.string().min(1).max(200).optional(),
+});
+
+// End the current session, identified by the refresh token or the access token. Always { ok: true }.
+authRouter.post("/logout", asyncHandler(async (req, res) => {
+  const parsed = LogoutSchema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+
+  if (parsed.data.refreshToken) {
+    await revokeByRefreshToken(parsed.data.refreshToken, "logout");
+  } else {
+    const m = /^Bearer\s+(.+)$/.exec(req.header("authorization") || "");
+    const user = m ? await verifyAuthToken(m[1]) : null;
+    if (user?.sessionId) await revokeAuthSession(user.sessionId, user.id, "logout");
+  }
+  return res.json({ ok: true });
+}));
+
+// My signed-in devices (open sessions), most recently used first
+authRouter.get("/sessions", requireAuth, asyncHandler(async (req, res) => {
+  const sessions = await AuthSessionModel.find({ userId: req.user!.id, revokedAt: null, expiresAt: { $gt: new Date() } })
+    .sort({ lastUsedAt: -1 })
+    .limit(100)
+    .lean();
+  return res.json({ sessions: (sessions as any[]).map((s) => sessionRow(s, req.user!.sessionId)) });
+}));
+
+authRouter.delete("/sessions/:id", requireAuth, asyncHandler(async (req, res) => {
+  if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: "Invalid session id" });
+  const revoked = await revokeAuthSession(req.params.id, req.user!.id, "revoked");
+  if (!revoked) return res.status(404).json({ error: "Session not found" });
+  return res.json({ ok: true });
+}));
+
+const RevokeAllSchema = z.object({
+  // Also sign out this device
+  includeCurrent: z.boolean().optional(),
+});
+
+// Sign out everywhere else (or everywhere with includeCurrent)
+authRouter.post("/sessions/revoke-all", requireAuth, asyncHandler(async (req, res) => {
+  const parsed = RevokeAllSchema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
 
-  return res.json({ token, user: { id: String(user._id), role: user.role, email: user.email } });
+  const keep = parsed.data.includeCurrent ? undefined : req.user!.sessionId;
+  const revoked = await revokeAllAuthSessions(req.user!.id, "revoke_all", keep);
+  return res.json({ ok: true, revoked });
 }));
 
 const GoogleCallbackQuery = z.object({
@@ -1,9 +1,8 @@
 import { Router } from "express";
 import { Types } from "mongoose";
 import { z } from "zod";
-import jwt from "jsonwebtoken";
 
-import { requireRole, type AuthUser } from "../middleware/auth";
+import { requireRole, verifyAuthToken, type AuthUser } from "../middleware/auth";
 import { asyncHandler } from "../utils/asyncHandler";
 import { env } from "../config/env";
 import { BbbClient } from "../bbb/client";
@@ -12,10 +11,11 @@ import { ClassSessionModel } from "../models/ClassSession";
 import { BookingModel } from "../models/Booking";
 import { TeacherProfileModel } from "../models/TeacherProfile";
 import { StudentProfileModel } from "../models/StudentProfile";
+import { normalizeBbbBaseUrl, publicBackendBaseUrl } from "../services/bbbMeetings";
 
 export const bbbRouter = Router();
 
-function requireAuthHeaderOrQuery(req: any, res: any, next: any) {
+const requireAuthHeaderOrQuery = asyncHandler(async (req: any, res: any, next: any) => {
   const header = String(req.header("authorization") || "");
   const m = /^Bearer\s+(.+)$/.exec(header);
   const fromHeader = m?.[1];
@@ -23,39 +23,14 @@ function requireAuthHeaderOrQuery(req: any, res: any, next: any) {
   const token = (fromHeader || fromQuery || "").trim();
   if (!token) return res.status(401).json({ error: "Missing token" });
 
-  try {
-    const decoded = jwt.verify(token, env.JWT_SECRET) as any;
-    const id = String(decoded?.sub || "");
-    const role = String(decoded?.role || "");
-    const email = String(decoded?.email || "");
-    if (!id || !role || !email) return res.status(401).json({ error: "Invalid token" });
-
-    // If possible, cast role to the actual UserRole type, otherwise fallback to string
-    // Assuming UserRole is a union of string literals, try to type-assert safely
-    req.user = { id, role: role as AuthUser["role"], email };
-    return next();
-  } catch {
-    return res.status(401).json({ error: "Invalid token" });
-  }
-}
+  const user: AuthUser | null = await verifyAuthToken(token);
+  if (!user) return res.status(401).json({ error: "Invalid token" });
+  req.user = user;
+  return next();
+});
 
 bbbRouter.use(requireAuthHeaderOrQuery, requireRole("student", "teacher", "admin"));
 
-function normalizeBbbBaseUrl(raw: string): string {
-  let base = raw.trim().replace(/\/+$/, "");
-  if (base.toLowerCase().endsWith("/api")) base = base.slice(0, -4);
-  return base;
-}
-
-function publicBackendBaseUrl(req: any): string {
-  const fromEnv = (env.PUBLIC_BACKEND_URL || "").trim().replace(/\/+$/, "");
-  if (fromEnv) return fromEnv;
-  // Fallback (dev): build from request.
-  const proto = (req.headers["x-forwarded-proto"] || req.protocol || "http") as string;
-  const host = (req.headers["x-forwarded-host"] || req.get("host") || "") as string;
-  return `${proto}://${host}`.replace(/\/+$/, "");
-}
-
 async function displayNameForUser(user: { id: string; role: string; email: string }): Promise<string> {
   if (user.role === "teacher") {
     const tp = (await TeacherProfileModel.findOne({ userId: user.id }).select("name").lean()) as any | null;
@@ -114,6 +89,20 @@ bbbRouter.get(
     const password = user.role === "teacher" ? moderatorPW : attendeePW;
     const fullName = await displayNameForUser(user);
 
+    // Attendance data for automatic completion / no-show detection (first join wins).
+    const joinedAt = new Date();
+    if (user.role === "student") {
+      await BookingModel.updateOne(
+        { sessionId, studentUserId: user.id, status: "booked", "attendance.studentJoinedAt": { $exists: false } },
+        { $set: { "attendance.studentJoinedAt": joinedAt } }
+      );
+    } else if (user.role === "teacher") {
+      await BookingModel.updateMany(
+        { sessionId, status: "booked", "attendance.teacherJoinedAt": { $exists: false } },
+        { $set: { "attendance.teacherJoinedAt": joinedAt } }
+      );
+    }
+
     const bbb = new BbbClient(bbbBaseUrl, secret);
     const joinUrl = bbb.buildSignedUrl("join", {
       meetingID: meetingId,
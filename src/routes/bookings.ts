@@ -1,46 +1,31 @@
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
 import mongoose, { Types } from "mongoose";
 import { z } from "zod";
 
 import { requireAuth, requireRole } from "../middleware/auth";
+import { idempotent } from "../middleware/idempotency";
 import { ClassSessionModel } from "../models/ClassSession";
 import { BookingModel } from "../models/Booking";
-import { CreditTransactionModel } from "../models/CreditTransaction";
 import { asyncHandler } from "../utils/asyncHandler";
 import { TeacherProfileModel } from "../models/TeacherProfile";
 import { StudentProfileModel } from "../models/StudentProfile";
 import { LessonRatingModel } from "../models/LessonRating";
-import { env } from "../config/env";
-import { BbbClient } from "../bbb/client";
 import { persistAndNotify, resolveTeacherUserId, notifyUsers } from "../ws/emit";
-import { deriveMeetingPasswords } from "../bbb/meetingPasswords";
 import { LessonMessageModel } from "../models/LessonMessage";
 import { getBookingChatParticipant } from "../services/lessonChat";
+import { ensureSessionMeeting, endSessionMeeting } from "../services/bbbMeetings";
+import { getCreditBalance, postCreditTransaction } from "../services/credits";
+import { claimSessionSeat, releaseSessionSeat } from "../services/sessionSeats";
+import { markWaitlistBooked, offerNextInLine } from "../services/waitlist";
+import { bookSessionSeat, cancelStudentBooking } from "../services/studentBookings";
+import { deleteCalendarEvent } from "../services/googleCalendar";
+import { resolveTimeZone } from "../services/sessionSlots";
+import { addLocalDays, getZonedParts, zonedWallTimeToUtc } from "../utils/timezone";
 
 export const bookingsRouter = Router();
 
 bookingsRouter.use(requireAuth, requireRole("student"));
 
-function normalizeBbbBaseUrl(raw: string): string {
-  let base = raw.trim().replace(/\/+$/, "");
-  if (base.toLowerCase().endsWith("/api")) base = base.slice(0, -4);
-  return base;
-}
-
-function publicBackendBaseUrl(req: any): string {
-  const fromEnv = (env.PUBLIC_BACKEND_URL || "").trim().replace(/\/+$/, "");
-  if (fromEnv) return fromEnv;
-  const proto = (req.headers["x-forwarded-proto"] || req.protocol || "http") as string;
-  const host = (req.headers["x-forwarded-host"] || req.get("host") || "") as string;
-  return `${proto}://${host}`.replace(/\/+$/, "");
-}
-
-function isBbbIdNotUniqueError(err: any): boolean {
-  const msg = String(err?.message || "");
-  // BBB typically returns messageKey "idNotUnique" when meetingID already exists.
-  return msg.includes("idNotUnique") || msg.toLowerCase().includes("not unique");
-}
-
 const ListSchema = z.object({
   status: z.enum(["booked", "completed", "cancelled", "no_show"]).optional(),
   from: z.string().datetime().optional(),
@@ -67,7 +52,7 @@ bookingsRouter.get(
 
     const bookings = await BookingModel.find(q)
       .sort({ bookedAt: -1 })
-      .populate({ path: "sessionId", select: "startAt endAt meetingLink status priceCredits" })
+      .populate({ path: "sessionId", select: "startAt endAt durationMinutes capacity seatsBooked meetingLink status priceCredits" })
       .populate({ path: "teacherId", select: "name country photoUrl stats" })
       .lean();
 
@@ -88,6 +73,7 @@ bookingsRouter.get(
       priceCredits: Number(b.priceCredits ?? 0),
       bookedAt: b.bookedAt,
       cancelledAt: b.cancelledAt ?? null,
+      seriesId: b.seriesId ? String(b.seriesId) : null,
       calendarEventId: String(b.calendarEventId || ""),
       studentRated: studentRatedSet.has(String(b._id)),
       teacherRated: teacherRatedSet.has(String(b._id)),
@@ -105,6 +91,9 @@ bookingsRouter.get(
             id: String(b.sessionId._id),
             startAt: b.sessionId.startAt,
             endAt: b.sessionId.endAt,
+            durationMinutes: Number(b.sessionId.durationMinutes ?? 25),
+            capacity: Number(b.sessionId.capacity ?? 1),
+            seatsBooked: Number(b.sessionId.seatsBooked ?? 0),
             meetingLink: String(b.sessionId.meetingLink || ""),
             status: String(b.sessionId.status || ""),
             priceCredits: Number(b.sessionId.priceCredits ?? 0),
@@ -120,7 +109,7 @@ const CreateSchema = z.object({
   sessionId: z.string().min(1),
 });
 
-bookingsRouter.post("/", asyncHandler(async (req, res) => {
+bookingsRouter.post("/", idempotent, asyncHandler(async (req, res) => {
   const parsed = CreateSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
 
@@ -129,6 +118,7 @@ bookingsRouter.post("/", asyncHandler(async (req, res) => {
 
   if (!Types.ObjectId.isValid(sessionIdStr)) return res.status(400).json({ error: "Invalid sessionId" });
   const sessionId = new Types.ObjectId(sessionIdStr);
+  const studentObjectId = new Types.ObjectId(studentUserId);
 
   const mongoSession = await mongoose.startSession();
 
@@ -137,64 +127,12 @@ bookingsRouter.post("/", asyncHandler(async (req, res) => {
     let createdBookingId: string | null = null;
 
     await mongoSession.withTransaction(async () => {
-      const classSession = await ClassSessionModel.findOne({ _id: sessionId, status: "open" }).session(mongoSession);
-      if (!classSession) {
-        result = { status: 409, body: { error: "Session is not available" } };
-        return;
-      }
-
-      const balanceAgg = await CreditTransactionModel.aggregate([
-        { $match: { userId: { $eq: new Types.ObjectId(studentUserId) } } },
-        { $group: { _id: null, balance: { $sum: "$amount" } } },
-      ]).session(mongoSession);
-
-      const balance = balanceAgg[0]?.balance ?? 0;
-      if (balance < classSession.priceCredits) {
-        result = { status: 402, body: { error: "Not enough credits", balance, required: classSession.priceCredits } };
-        return;
-      }
-
-      const updated = await ClassSessionModel.findOneAndUpdate(
-        { _id: sessionId, status: "open" },
-        { $set: { status: "booked" } },
-        { new: true, session: mongoSession }
-      );
-      if (!updated) {
-        result = { status: 409, body: { error: "Session already booked" } };
+      const booked = await bookSessionSeat({ sessionId, studentUserId: studentObjectId, mongoSession });
+      if (!booked.ok) {
+        result = { status: booked.status, body: booked.body };
         return;
       }
-
-      const booking = await BookingModel.create(
-        [
-          {
-            sessionId,
-            teacherId: updated.teacherId,
-            studentUserId: new Types.ObjectId(studentUserId),
-            status: "booked",
-            bookedAt: new Date(),
-            priceCredits: updated.priceCredits,
-          },
-        ],
-        { session: mongoSession }
-      );
-
-      const bookingDoc = booking[0];
-
-      const tx = await CreditTransactionModel.create(
-        [
-          {
-            userId: new Types.ObjectId(studentUserId),
-            type: "spend",
-            amount: -updated.priceCredits,
-            currency: "credits",
-            related: { bookingId: bookingDoc._id, sessionId: updated._id },
-          },
-        ],
-        { session: mongoSession }
-      );
-
-      bookingDoc.creditTxId = tx[0]._id;
-      await bookingDoc.save({ session: mongoSession });
+      const { booking: bookingDoc, session: updated } = booked;
 
       createdBookingId = String(bookingDoc._id);
       result = {
@@ -222,64 +160,9 @@ bookingsRouter.post("/", asyncHandler(async (req, res) => {
     // If booking succeeded, create a BBB meeting and store a role-aware join link.
     if (result.status === 201 && createdBookingId) {
       try {
-        const bbbBaseUrl = env.BBB_BASE_URL ? normalizeBbbBaseUrl(env.BBB_BASE_URL) : "";
-        const secret = (env.BBB_SHARED_SECRET || "").trim();
-        if (!bbbBaseUrl || !secret) {
-          result.body.bbb = { created: false, reason: "bbb_not_configured" };
-        } else {
-          const booking = (await BookingModel.findById(createdBookingId).lean()) as any | null;
-          if (!booking) {
-            result.body.bbb = { created: false, reason: "booking_not_found" };
-          } else {
-            const session = (await ClassSessionModel.findById(booking.sessionId).select("startAt endAt meetingLink teacherId").lean()) as any | null;
-            if (!session) {
-              result.body.bbb = { created: false, reason: "session_not_found" };
-            } else {
-              const meetingId = sessionIdStr;
-              const salt = (env.MEETING_PASSWORD_SALT || "").trim() || secret;
-              const { moderatorPW, attendeePW } = deriveMeetingPasswords({ meetingId, salt });
-
-              const teacherProfile = (await TeacherProfileModel.findById(session.teacherId).select("name").lean()) as any | null;
-              const teacherName = String(teacherProfile?.name || "Teacher");
-              const meetingName = `Class with ${teacherName}`.slice(0, 120);
-
-              const startMs = new Date(session.startAt).getTime();
-              const endMs = new Date(session.endAt).getTime();
-              const durationMinutes = Number.isFinite(startMs) && Number.isFinite(endMs) && endMs > startMs
-                ? Math.max(1, Math.round((endMs - startMs) / 60000))
-                : undefined;
-
-              const joinLink = `${publicBackendBaseUrl(req)}/bbb/sessions/${encodeURIComponent(sessionIdStr)}/join`;
-
-              // Create BBB meeting (best-effort). If meeting already exists, treat as success.
-              const bbb = new BbbClient(bbbBaseUrl, secret);
-              let created = false;
-              try {
-                await bbb.callXml(
-                  "create",
-                  {
-                    meetingID: meetingId,
-                    name: meetingName,
-                    record: false,
-                    duration: durationMinutes,
-                    moderatorPW,
-                    attendeePW,
-                    logoutURL: `${env.CORS_ORIGIN.replace(/\/+$/, "")}/ebluelearning`,
-                  },
-                  "create"
-                );
-                created = true;
-              } catch (e: any) {
-                if (!isBbbIdNotUniqueError(e)) throw e;
-              }
-
-              // Store join link (works for both student/teacher because backend chooses the BBB password).
-              await ClassSessionModel.updateOne({ _id: booking.sessionId }, { $set: { meetingLink: joinLink } });
-              result.body.session.meetingLink = joinLink;
-              result.body.bbb = { created, joinLink };
-            }
-          }
-        }
+        const meeting = await ensureSessionMeeting(req, sessionIdStr);
+        if ("joinLink" in meeting) result.body.session.meetingLink = meeting.joinLink;
+        result.body.bbb = meeting;
       } catch (e: any) {
         // Don't fail the booking if BBB meeting creation fails.
         const msg = String(e?.message || "BBB meeting creation failed");
@@ -311,6 +194,254 @@ bookingsRouter.post("/", asyncHandler(async (req, res) => {
   }
 }));
 
+const MAX_SERIES_WEEKS = 26;
+
+const RecurringSchema = z
+  .object({
+    // First lesson of the series; the following ones are the teacher's sessions at the same local weekday and time.
+    sessionId: z.string().min(1),
+    weeks: z.number().int().min(2).max(MAX_SERIES_WEEKS).optional(),
+    until: z.string().datetime().optional(),
+    // full_series: book only if credits cover every available lesson; as_credits_allow: book in order while credits last
+    creditMode: z.enum(["full_series", "as_credits_allow"]).default("full_series"),
+  })
+  .refine((v) => (v.weeks === undefined) !== (v.until === undefined), { message: "Provide either weeks or until" });
+
+type SkippedOccurrence = { week: number; startAt: Date | null; reason: string };
+
+// Book a standing weekly lesson: the same weekday and local time (teacher's timezone) for N weeks or until a date.
+bookingsRouter.post("/recurring", idempotent, asyncHandler(async (req, res) => {
+  const parsed = RecurringSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  if (!Types.ObjectId.isValid(parsed.data.sessionId)) return res.status(400).json({ error: "Invalid sessionId" });
+
+  const studentUserId = req.user!.id;
+  const studentObjectId = new Types.ObjectId(studentUserId);
+  const { weeks, creditMode } = parsed.data;
+  const until = parsed.data.until ? new Date(parsed.data.until) : null;
+
+  const first = (await ClassSessionModel.findById(parsed.data.sessionId).select("teacherId startAt endAt").lean()) as
+    | { _id: Types.ObjectId; teacherId: Types.ObjectId; startAt: Date; endAt: Date }
+    | null;
+  if (!first) return res.status(404).json({ error: "Session not found" });
+  if (until && until < first.startAt) return res.status(400).json({ error: "until must be after the first lesson" });
+
+  const teacherProfile = (await TeacherProfileModel.findById(first.teacherId).select("timezone").lean()) as { timezone?: string } | null;
+  const tz = resolveTimeZone(teacherProfile?.timezone);
+  const local = getZonedParts(first.startAt, tz);
+  const minutesOfDay = local.hour * 60 + local.minute;
+  const lengthMs = first.endAt.getTime() - first.startAt.getTime();
+
+  // Wall-clock time stays the same across DST changes; a week whose time does not exist gets no lesson.
+  const occurrences: { week: number; startAt: Date | null }[] = [];
+  for (let k = 0; k < (weeks ?? MAX_SERIES_WEEKS); k++) {
+    const startAt = zonedWallTimeToUtc(addLocalDays(local, 7 * k), minutesOfDay, tz);
+    if (until && startAt && startAt > until) break;
+    occurrences.push({ week: k + 1, startAt });
+  }
+
+  const wanted = occurrences.filter((o) => o.startAt).map((o) => o.startAt!);
+  const sessions = (await ClassSessionModel.find({
+    teacherId: first.teacherId,
+    startAt: { $in: wanted },
+    status: { $ne: "cancelled" },
+  })
+    .select("_id startAt endAt")
+    .lean()) as unknown as { _id: Types.ObjectId; startAt: Date; endAt: Date }[];
+  const sessionByStart = new Map(
+    sessions
+      .filter((s) => s.endAt.getTime() - s.startAt.getTime() === lengthMs)
+      .map((s) => [s.startAt.getTime(), s._id])
+  );
+
+  const seriesId = new Types.ObjectId();
+  const mongoSession = await mongoose.startSession();
+
+  try {
+    let result: any = null;
+
+    await mongoSession.withTransaction(async () => {
+      const skipped: SkippedOccurrence[] = [];
+      const candidates: { week: number; startAt: Date; sessionId: Types.ObjectId }[] = [];
+      for (const o of occurrences) {
+        const sessionId = o.startAt ? sessionByStart.get(o.startAt.getTime()) : undefined;
+        if (sessionId) candidates.push({ week: o.week, startAt: o.startAt!, sessionId });
+        else skipped.push({ week: o.week, startAt: o.startAt, reason: "No lesson offered at this time" });
+      }
+
+      if (creditMode === "full_series") {
+        const open = await ClassSessionModel.find({ _id: { $in: candidates.map((c) => c.sessionId) }, status: "open" })
+          .select("priceCredits")
+          .session(mongoSession)
+          .lean();
+        const required = (open as any[]).reduce((sum, s) => sum + Number(s.priceCredits ?? 0), 0);
+        const balance = await getCreditBalance(studentUserId, mongoSession);
+        if (balance < required) {
+          result = { status: 402, body: { error: "Not enough credits for the whole series", balance, required } };
+          return;
+        }
+      }
+
+      const booked: { booking: any; session: any }[] = [];
+      for (const c of candidates) {
+        const r = await bookSessionSeat({ sessionId: c.sessionId, studentUserId: studentObjectId, seriesId, mongoSession });
+        if (r.ok) booked.push({ booking: r.booking, session: r.session });
+        else skipped.push({ week: c.week, startAt: c.startAt, reason: String(r.body.error) });
+      }
+
+      if (!booked.length) {
+        result = { status: 409, body: { error: "No lesson of the series could be booked", skipped } };
+        return;
+      }
+
+      result = {
+        status: 201,
+        body: {
+          seriesId: String(seriesId),
+          bookings: booked.map(({ booking, session }) => ({
+            id: String(booking._id),
+            sessionId: String(session._id),
+            teacherId: String(session.teacherId),
+            status: booking.status,
+            priceCredits: booking.priceCredits,
+            startAt: session.startAt,
+            endAt: session.endAt,
+          })),
+          skipped: skipped.sort((a, b) => a.week - b.week),
+          creditsSpent: booked.reduce((sum, b) => sum + Number(b.booking.priceCredits), 0),
+        },
+      };
+    });
+
+    if (!result) return res.status(500).json({ error: "Unknown error" });
+
+    if (result.status === 201) {
+      const rows = result.body.bookings as { id: string; sessionId: string; teacherId: string; startAt: Date; endAt: Date }[];
+      for (const row of rows) {
+        try {
+          await ensureSessionMeeting(req, row.sessionId);
+        } catch (e: any) {
+          // eslint-disable-next-line no-console
+          console.error("[booking->bbb] series creation failed", { sessionId: row.sessionId, error: String(e?.message || e) });
+        }
+      }
+      const teacherUserId = await resolveTeacherUserId(rows[0].teacherId);
+      if (teacherUserId) {
+        const studentProfile = (await StudentProfileModel.findOne({ userId: studentUserId }).select("nickname").lean()) as { nickname?: string } | null;
+        const studentName = String(studentProfile?.nickname || "").trim() || String(req.user?.email || "").split("@")[0] || "A student";
+        await persistAndNotify([teacherUserId], "new_booking", {
+          bookingId: rows[0].id,
+          sessionId: rows[0].sessionId,
+          startAt: rows[0].startAt,
+          endAt: rows[0].endAt,
+          studentName,
+          seriesId: result.body.seriesId,
+          lessons: rows.length,
+        });
+      }
+    }
+
+    return res.status(result.status).json(result.body);
+  } finally {
+    mongoSession.endSession();
+  }
+}));
+
+// Lessons of one of my recurring series
+bookingsRouter.get("/series/:seriesId", asyncHandler(async (req, res) => {
+  const seriesIdStr = req.params.seriesId;
+  if (!Types.ObjectId.isValid(seriesIdStr)) return res.status(400).json({ error: "Invalid series id" });
+
+  const bookings = await BookingModel.find({ seriesId: seriesIdStr, studentUserId: req.user!.id })
+    .populate({ path: "sessionId", select: "startAt endAt status" })
+    .lean();
+  if (!bookings.length) return res.status(404).json({ error: "Series not found" });
+
+  const rows = (bookings as any[])
+    .map((b) => ({
+      id: String(b._id),
+      status: String(b.status || ""),
+      priceCredits: Number(b.priceCredits ?? 0),
+      sessionId: b.sessionId ? String(b.sessionId._id) : null,
+      startAt: b.sessionId?.startAt ?? null,
+      endAt: b.sessionId?.endAt ?? null,
+    }))
+    .sort((a, b) => new Date(a.startAt ?? 0).getTime() - new Date(b.startAt ?? 0).getTime());
+  return res.json({ seriesId: seriesIdStr, bookings: rows });
+}));
+
+// Cancel every lesson of the series that has not started yet (refunds per the cancellation policy).
+bookingsRouter.post("/series/:seriesId/cancel", idempotent, asyncHandler(async (req, res) => {
+  const seriesIdStr = req.params.seriesId;
+  if (!Types.ObjectId.isValid(seriesIdStr)) return res.status(400).json({ error: "Invalid series id" });
+
+  const studentUserId = req.user!.id;
+  const mongoSession = await mongoose.startSession();
+
+  try {
+    let result: any = null;
+    let reopened: Types.ObjectId[] = [];
+    let teacherId: Types.ObjectId | null = null;
+
+    await mongoSession.withTransaction(async () => {
+      reopened = [];
+      const now = new Date();
+      const bookings = await BookingModel.find({ seriesId: seriesIdStr, studentUserId, status: "booked" }).session(mongoSession);
+      const upcoming = await ClassSessionModel.find({
+        _id: { $in: bookings.map((b: any) => b.sessionId) },
+        startAt: { $gt: now },
+      })
+        .select("_id")
+        .session(mongoSession)
+        .lean();
+      const upcomingIds = new Set((upcoming as any[]).map((s) => String(s._id)));
+
+      const cancelled: { bookingId: string; refundCredits: number }[] = [];
+      for (const booking of bookings as any[]) {
+        if (!upcomingIds.has(String(booking.sessionId))) continue;
+        const refund = await cancelStudentBooking(booking, mongoSession, "Recurring series cancelled");
+        if (refund.reopenedSessionId) reopened.push(refund.reopenedSessionId);
+        cancelled.push({ bookingId: String(booking._id), refundCredits: refund.refundCredits });
+        teacherId = booking.teacherId;
+      }
+
+      if (!cancelled.length) {
+        result = { status: 404, body: { error: "No upcoming lessons in this series" } };
+        return;
+      }
+      result = {
+        status: 200,
+        body: {
+          ok: true,
+          seriesId: seriesIdStr,
+          cancelled,
+          refundCredits: cancelled.reduce((sum, c) => sum + c.refundCredits, 0),
+        },
+      };
+    });
+
+    if (!result) return res.status(500).json({ error: "Unknown error" });
+    for (const sessionId of reopened) await offerNextInLine(sessionId);
+
+    if (result.status === 200 && teacherId) {
+      const teacherUserId = await resolveTeacherUserId(teacherId);
+      if (teacherUserId) {
+        const studentProfile = (await StudentProfileModel.findOne({ userId: studentUserId }).select("nickname").lean()) as { nickname?: string } | null;
+        const studentName = String(studentProfile?.nickname || "").trim() || String(req.user?.email || "").split("@")[0] || "A student";
+        await persistAndNotify([teacherUserId], "booking_cancelled", {
+          seriesId: seriesIdStr,
+          bookingIds: result.body.cancelled.map((c: { bookingId: string }) => c.bookingId),
+          studentName,
+          refundCredits: result.body.refundCredits,
+        });
+      }
+    }
+    return res.status(result.status).json(result.body);
+  } finally {
+    mongoSession.endSession();
+  }
+}));
+
 // Lesson chat: list messages for this booking (student must own the booking)
 bookingsRouter.get(
   "/:id/messages",
@@ -382,7 +513,8 @@ bookingsRouter.post(
   })
 );
 
-bookingsRouter.post("/:id/cancel", asyncHandler(async (req, res) => {
+// Cancel a booking, or skip one lesson of a recurring series (the rest of the series stays booked).
+async function cancelOwnBooking(req: Request, res: Response, skip: boolean) {
   const bookingIdStr = req.params.id;
   if (!Types.ObjectId.isValid(bookingIdStr)) return res.status(400).json({ error: "Invalid booking id" });
 
@@ -393,8 +525,10 @@ bookingsRouter.post("/:id/cancel", asyncHandler(async (req, res) => {
 
   try {
     let result: any = null;
+    let reopenedSessionId: Types.ObjectId | null = null;
 
     await mongoSession.withTransaction(async () => {
+      reopenedSessionId = null;
       const booking = await BookingModel.findOne({ _id: bookingId, studentUserId: studentUserId }).session(mongoSession);
       if (!booking) {
         result = { status: 404, body: { error: "Booking not found" } };
@@ -404,41 +538,236 @@ bookingsRouter.post("/:id/cancel", asyncHandler(async (req, res) => {
         result = { status: 409, body: { error: "Booking cannot be cancelled" } };
         return;
       }
+      if (skip && !booking.seriesId) {
+        result = { status: 400, body: { error: "Booking is not part of a recurring series" } };
+        return;
+      }
 
-      booking.status = "cancelled";
-      booking.cancelledAt = new Date();
-      await booking.save({ session: mongoSession });
-
-      // Re-open session (simple policy for now)
-      await ClassSessionModel.updateOne({ _id: booking.sessionId }, { $set: { status: "open" } }).session(mongoSession);
+      const refund = await cancelStudentBooking(booking, mongoSession, skip ? "Skipped lesson of recurring series" : "");
+      reopenedSessionId = refund.reopenedSessionId;
 
-      // Refund credits (simple policy; adjust later if needed)
-      await CreditTransactionModel.create(
-        [
-          {
-            userId: new Types.ObjectId(studentUserId),
-            type: "refund",
-            amount: booking.priceCredits,
-            currency: "credits",
-            related: { bookingId: booking._id, sessionId: booking.sessionId },
+      result = {
+        status: 200,
+        body: {
+          ok: true,
+          ...(skip ? { seriesId: String(booking.seriesId) } : {}),
+          refund: {
+            credits: refund.refundCredits,
+            rule: refund.rule,
+            percent: refund.refundPercent,
+            policy: refund.policy,
           },
-        ],
-        { session: mongoSession }
-      );
-
-      result = { status: 200, body: { ok: true } };
+        },
+      };
     });
 
     if (!result) return res.status(500).json({ error: "Unknown error" });
+    if (reopenedSessionId) await offerNextInLine(reopenedSessionId);
     if (result.status === 200) {
       const bookingDoc = (await BookingModel.findById(bookingIdStr).select("teacherId").lean()) as { teacherId?: Types.ObjectId } | null;
       const teacherUserId = bookingDoc?.teacherId ? await resolveTeacherUserId(bookingDoc.teacherId) : null;
       if (teacherUserId) {
         const cancelStudentProfile = (await StudentProfileModel.findOne({ userId: studentUserId }).select("nickname").lean()) as { nickname?: string } | null;
         const studentName = String(cancelStudentProfile?.nickname || "").trim() || String(req.user?.email || "").split("@")[0] || "A student";
-        await persistAndNotify([teacherUserId], "booking_cancelled", { bookingId: bookingIdStr, studentName });
+        await persistAndNotify([teacherUserId], "booking_cancelled", {
+          bookingId: bookingIdStr,
+          ...(skip ? { seriesId: result.body.seriesId, skipped: true } : {}),
+          studentName,
+          refundCredits: result.body.refund.credits,
+          refundRule: result.body.refund.rule,
+        });
       }
     }
+    return res.status(result.status).json(result.body);
+  } finally {
+    mongoSession.endSession();
+  }
+}
+
+bookingsRouter.post("/:id/cancel", idempotent, asyncHandler((req, res) => cancelOwnBooking(req, res, false)));
+bookingsRouter.post("/:id/skip", idempotent, asyncHandler((req, res) => cancelOwnBooking(req, res, true)));
+
+const RescheduleSchema = z.object({
+  sessionId: z.string().min(1),
+});
+
+// Move a booking to another open session of the same teacher. Keeps the booking id (and its lesson chat);
+// credits move only by the price difference.
+bookingsRouter.post("/:id/reschedule", idempotent, asyncHandler(async (req, res) => {
+  const bookingIdStr = req.params.id;
+  if (!Types.ObjectId.isValid(bookingIdStr)) return res.status(400).json({ error: "Invalid booking id" });
+
+  const parsed = RescheduleSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+  if (!Types.ObjectId.isValid(parsed.data.sessionId)) return res.status(400).json({ error: "Invalid sessionId" });
+
+  const studentUserId = req.user!.id;
+  const bookingId = new Types.ObjectId(bookingIdStr);
+  const targetSessionId = new Types.ObjectId(parsed.data.sessionId);
+
+  const mongoSession = await mongoose.startSession();
+
+  try {
+    let result: any = null;
+    let previous: { sessionId: string; startAt: Date; calendarEventId: string; endMeeting: boolean } | null = null;
+
+    await mongoSession.withTransaction(async () => {
+      const booking = await BookingModel.findOne({ _id: bookingId, studentUserId }).session(mongoSession);
+      if (!booking) {
+        result = { status: 404, body: { error: "Booking not found" } };
+        return;
+      }
+      if (booking.status !== "booked") {
+        result = { status: 409, body: { error: "Booking cannot be rescheduled" } };
+        return;
+      }
+      if (String(booking.sessionId) === String(targetSessionId)) {
+        result = { status: 400, body: { error: "Booking is already on this session" } };
+        return;
+      }
+
+      const now = new Date();
+      const current = await ClassSessionModel.findById(booking.sessionId).session(mongoSession);
+      if (current && current.startAt.getTime() <= now.getTime()) {
+        result = { status: 409, body: { error: "Lesson has already started" } };
+        return;
+      }
+
+      const target = await ClassSessionModel.findOne({
+        _id: targetSessionId,
+        teacherId: booking.teacherId,
+        status: "open",
+        startAt: { $gt: now },
+      }).session(mongoSession);
+      if (!target) {
+        result = { status: 409, body: { error: "Session is not available" } };
+        return;
+      }
+      const alreadyBooked = await BookingModel.exists({ sessionId: targetSessionId, studentUserId, status: "booked" }).session(mongoSession);
+      if (alreadyBooked) {
+        result = { status: 409, body: { error: "You already booked this session" } };
+        return;
+      }
+
+      const priceDiff = target.priceCredits - booking.priceCredits;
+      if (priceDiff > 0) {
+        const balance = await getCreditBalance(studentUserId, mongoSession);
+        if (balance < priceDiff) {
+          result = { status: 402, body: { error: "Not enough credits", balance, required: priceDiff } };
+          return;
+        }
+      }
+
+      const updated = await claimSessionSeat(targetSessionId, booking.studentUserId, mongoSession);
+      if (!updated) {
+        result = { status: 409, body: { error: "Session is full" } };
+        return;
+      }
+
+      // Give the old seat back. Once nobody is left, the old meeting link is stale.
+      const released = await releaseSessionSeat(booking.sessionId, mongoSession);
+      const oldSessionEmpty = !released || Number(released.seatsBooked ?? 0) === 0;
+      if (released && oldSessionEmpty) {
+        await ClassSessionModel.updateOne({ _id: booking.sessionId }, { $set: { meetingLink: "" } }).session(mongoSession);
+      }
+
+      // Group sessions share one calendar event between bookings; only drop it with the last one.
+      const eventId = booking.calendarEventId || "";
+      const eventShared = eventId
+        ? await BookingModel.exists({
+            _id: { $ne: booking._id },
+            sessionId: booking.sessionId,
+            status: "booked",
+            calendarEventId: eventId,
+          }).session(mongoSession)
+        : null;
+
+      previous = {
+        sessionId: String(booking.sessionId),
+        startAt: current?.startAt ?? now,
+        calendarEventId: eventShared ? "" : eventId,
+        endMeeting: oldSessionEmpty,
+      };
+
+      booking.rescheduledFrom.push({ sessionId: booking.sessionId, at: now });
+      booking.sessionId = updated._id;
+      booking.priceCredits = updated.priceCredits;
+      booking.calendarEventId = "";
+      await booking.save({ session: mongoSession });
+      await markWaitlistBooked(booking.studentUserId, updated._id, booking._id, mongoSession);
+
+      if (priceDiff !== 0) {
+        await postCreditTransaction(
+          {
+            userId: studentUserId,
+            type: priceDiff > 0 ? "spend" : "refund",
+            amount: -priceDiff,
+            related: { bookingId: booking._id, sessionId: updated._id },
+          },
+          mongoSession,
+          { inheritExpiryFrom: { type: "spend", "related.bookingId": booking._id } }
+        );
+      }
+
+      result = {
+        status: 200,
+        body: {
+          booking: {
+            id: String(booking._id),
+            sessionId: String(updated._id),
+            teacherId: String(updated.teacherId),
+            status: booking.status,
+            priceCredits: booking.priceCredits,
+            bookedAt: booking.bookedAt,
+          },
+          session: {
+            startAt: updated.startAt,
+            endAt: updated.endAt,
+            meetingLink: updated.meetingLink || null,
+          },
+          creditsDelta: -priceDiff,
+        },
+      };
+    });
+
+    if (!result) return res.status(500).json({ error: "Unknown error" });
+
+    if (result.status === 200 && previous) {
+      const prev = previous as { sessionId: string; startAt: Date; calendarEventId: string; endMeeting: boolean };
+      const newSessionIdStr = result.body.booking.sessionId as string;
+      const teacherUserId = await resolveTeacherUserId(result.body.booking.teacherId);
+
+      await offerNextInLine(prev.sessionId);
+
+      // Close the old meeting (unless other students still use it) and point the booking at the new session's.
+      if (prev.endMeeting) await endSessionMeeting(prev.sessionId);
+      try {
+        const meeting = await ensureSessionMeeting(req, newSessionIdStr);
+        if ("joinLink" in meeting) result.body.session.meetingLink = meeting.joinLink;
+        result.body.bbb = meeting;
+      } catch (e: any) {
+        const msg = String(e?.message || "BBB meeting creation failed");
+        result.body.bbb = { created: false, error: msg };
+        // eslint-disable-next-line no-console
+        console.error("[booking->bbb] reschedule creation failed", msg);
+      }
+      if (teacherUserId && prev.calendarEventId) await deleteCalendarEvent(teacherUserId, prev.calendarEventId);
+
+      if (teacherUserId) {
+        const studentProfile = (await StudentProfileModel.findOne({ userId: studentUserId }).select("nickname").lean()) as { nickname?: string } | null;
+        const studentName = String(studentProfile?.nickname || "").trim() || String(req.user?.email || "").split("@")[0] || "A student";
+        await persistAndNotify([teacherUserId], "booking_rescheduled", {
+          bookingId: bookingIdStr,
+          previousSessionId: prev.sessionId,
+          previousStartAt: prev.startAt,
+          sessionId: newSessionIdStr,
+          startAt: result.body.session.startAt,
+          endAt: result.body.session.endAt,
+          studentName,
+        });
+      }
+    }
+
     return res.status(result.status).json(result.body);
   } finally {
     mongoSession.endSession();
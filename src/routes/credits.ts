@@ -1,63 +1,405 @@
 import { Router } from "express";
-import { Types } from "mongoose";
+import mongoose, { Types } from "mongoose";
 import { z } from "zod";
+import { env } from "../config/env";
 import { requireAuth, requireRole } from "../middleware/auth";
+import { idempotent } from "../middleware/idempotency";
+import { CreditPackageModel } from "../models/CreditPackage";
+import { CreditShareModel } from "../models/CreditShare";
 import { CreditTransactionModel } from "../models/CreditTransaction";
+import { ReferralModel } from "../models/Referral";
+import { UserModel } from "../models/User";
+import { getCreditBalance, getExpiringCredits, writeShareTransfer } from "../services/credits";
+import { fakePaymentsEnabled } from "../payments";
+import { paymentRow, startPackageCheckout } from "../services/payments";
+import { packageRow, purchasablePackageFilter } from "../services/creditPackages";
+import { reservePromoCode, type PromoQuote } from "../services/promoCodes";
+import { attachReferral, checkReferral, getOrCreateReferralCode } from "../services/referrals";
 import { asyncHandler } from "../utils/asyncHandler";
+import { persistAndNotify } from "../ws/emit";
 
 export const creditsRouter = Router();
 
+// Public catalog (registered before the auth middleware)
+creditsRouter.get("/packages", asyncHandler(async (_req, res) => {
+  const packages = await CreditPackageModel.find({ ...purchasablePackageFilter(new Date()), visible: true })
+    .sort({ sortOrder: 1, priceCents: 1 })
+    .lean();
+  res.json({ packages: (packages as any[]).map(packageRow) });
+}));
+
 creditsRouter.use(requireAuth, requireRole("student"));
 
+// Balance plus upcoming expiries; `expiringSoon` covers the next CREDIT_EXPIRY_WARNING_DAYS.
 creditsRouter.get("/balance", asyncHandler(async (req, res) => {
   const userId = req.user!.id;
-  const agg = await CreditTransactionModel.aggregate([
-    { $match: { userId: { $eq: new Types.ObjectId(userId) } } },
-    { $group: { _id: null, balance: { $sum: "$amount" } } },
-  ]);
+  const balance = await getCreditBalance(userId);
+  const expiring = await getExpiringCredits(userId);
 
-  const balance = agg[0]?.balance ?? 0;
-  res.json({ balance });
+  const soonUntil = Date.now() + env.CREDIT_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000;
+  const expiringSoon = expiring
+    .filter((e) => e.expiresAt.getTime() <= soonUntil)
+    .reduce((sum, e) => sum + e.credits, 0);
+  res.json({
+    balance,
+    expiringSoon: { credits: expiringSoon, withinDays: env.CREDIT_EXPIRY_WARNING_DAYS },
+    expiring,
+  });
 }));
 
 creditsRouter.get("/ledger", asyncHandler(async (req, res) => {
   const userId = req.user!.id;
-  const txs = await CreditTransactionModel.find({ userId }).sort({ createdAt: -1 }).limit(200).lean();
+  const txs = (await CreditTransactionModel.find({ userId }).sort({ createdAt: -1 }).limit(200).lean()) as any[];
+
+  // Show who a share went to / came from
+  const shareIds = txs.map((t) => t.related?.shareId).filter(Boolean);
+  if (shareIds.length) {
+    const shares = (await CreditShareModel.find({ _id: { $in: shareIds } }).lean()) as unknown as ShareDoc[];
+    const emailById = await emailsFor(shares.flatMap((s) => [s.fromUserId, s.toUserId]));
+    const shareById = new Map(shares.map((s) => [String(s._id), shareRow(s, userId, emailById)]));
+    for (const t of txs) {
+      if (t.related?.shareId) t.share = shareById.get(String(t.related.shareId)) ?? null;
+    }
+  }
   res.json({ transactions: txs });
 }));
 
+const ShareSchema = z.object({
+  recipientEmail: z.string().trim().email(),
+  amount: z.number().int().min(1),
+  note: z.string().trim().max(200).optional(),
+});
+
+type ShareDoc = {
+  _id: Types.ObjectId;
+  fromUserId: Types.ObjectId;
+  toUserId: Types.ObjectId;
+  amount: number;
+  note?: string;
+  status: string;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  reversibleUntil?: Date;
+  createdAt?: Date;
+};
+
+function shareRow(s: ShareDoc, userId: string, emailById: Map<string, string>) {
+  const outgoing = String(s.fromUserId) === userId;
+  const counterpart = String(outgoing ? s.toUserId : s.fromUserId);
+  return {
+    id: String(s._id),
+    direction: outgoing ? "out" : "in",
+    counterpartEmail: emailById.get(counterpart) ?? "",
+    amount: s.amount,
+    note: s.note ?? "",
+    status: s.status === "pending" && s.expiresAt.getTime() <= Date.now() ? "expired" : s.status,
+    expiresAt: s.expiresAt,
+    acceptedAt: s.acceptedAt ?? null,
+    reversibleUntil: s.reversibleUntil ?? null,
+    createdAt: s.createdAt,
+  };
+}
+
+async function emailsFor(userIds: Types.ObjectId[]): Promise<Map<string, string>> {
+  const users = await UserModel.find({ _id: { $in: userIds } }).select("email").lean();
+  return new Map((users as any[]).map((u) => [String(u._id), String(u.email)]));
+}
+
+// Send credits to another student account. The recipient has to accept; only then do credits move.
+creditsRouter.post("/share", idempotent, asyncHandler(async (req, res) => {
+  const parsed = ShareSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+
+  const fromUserId = new Types.ObjectId(req.user!.id);
+  const { amount, note } = parsed.data;
+
+  const recipient = (await UserModel.findOne({ email: parsed.data.recipientEmail.toLowerCase() })
+    .select("_id role status")
+    .lean()) as { _id: Types.ObjectId; role: string; status: string } | null;
+  if (!recipient || recipient.role !== "student" || recipient.status !== "active") {
+    return res.status(404).json({ error: "Recipient not found" });
+  }
+  if (recipient._id.equals(fromUserId)) return res.status(400).json({ error: "You cannot share credits with yourself" });
+
+  const now = new Date();
+  const dayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const [sentToday, pendingOut] = await Promise.all([
+    CreditShareModel.aggregate([
+      { $match: { fromUserId, createdAt: { $gte: dayAgo }, status: { $in: ["pending", "accepted", "reversed"] } } },
+      { $group: { _id: null, total: { $sum: "$amount" } } },
+    ]),
+    CreditShareModel.aggregate([
+      { $match: { fromUserId, status: "pending", expiresAt: { $gt: now } } },
+      { $group: { _id: null, total: { $sum: "$amount" } } },
+    ]),
+  ]);
+  const usedToday = Number(sentToday[0]?.total ?? 0);
+  if (usedToday + amount > env.CREDIT_SHARE_DAILY_LIMIT) {
+    return res.status(429).json({
+      error: "Daily sharing limit reached",
+      limit: env.CREDIT_SHARE_DAILY_LIMIT,
+      remaining: Math.max(0, env.CREDIT_SHARE_DAILY_LIMIT - usedToday),
+    });
+  }
+
+  // Pending shares are not in the ledger yet, so count them against the balance here.
+  const balance = await getCreditBalance(fromUserId);
+  const available = balance - Number(pendingOut[0]?.total ?? 0);
+  if (available < amount) return res.status(402).json({ error: "Not enough credits", balance: available, required: amount });
+
+  const share = await CreditShareModel.create({
+    fromUserId,
+    toUserId: recipient._id,
+    amount,
+    note: note ?? "",
+    status: "pending",
+    expiresAt: new Date(now.getTime() + env.CREDIT_SHARE_ACCEPT_HOURS * 60 * 60 * 1000),
+  });
+
+  await persistAndNotify([String(recipient._id)], "credit_share_received", {
+    shareId: String(share._id),
+    fromEmail: req.user!.email,
+    amount,
+    note: note ?? "",
+    expiresAt: share.expiresAt,
+  });
+
+  const emailById = await emailsFor([recipient._id]);
+  return res.status(201).json({ share: shareRow(share.toObject() as ShareDoc, req.user!.id, emailById) });
+}));
+
+// Incoming and outgoing shares
+creditsRouter.get("/shares", asyncHandler(async (req, res) => {
+  const userId = new Types.ObjectId(req.user!.id);
+  const shares = (await CreditShareModel.find({ $or: [{ fromUserId: userId }, { toUserId: userId }] })
+    .sort({ createdAt: -1 })
+    .limit(100)
+    .lean()) as unknown as ShareDoc[];
+  const emailById = await emailsFor(shares.flatMap((s) => [s.fromUserId, s.toUserId]));
+  res.json({ shares: shares.map((s) => shareRow(s, req.user!.id, emailById)) });
+}));
+
+/**
+ * Run a share state change in a transaction. `apply` returns an error response, or null on success.
+ */
+async function updateShare(
+  shareIdStr: string,
+  apply: (share: any, mongoSession: mongoose.ClientSession) => Promise<{ status: number; error: string } | null>
+): Promise<{ status: number; body: Record<string, unknown>; share?: ShareDoc }> {
+  if (!Types.ObjectId.isValid(shareIdStr)) return { status: 400, body: { error: "Invalid share id" } };
+  const mongoSession = await mongoose.startSession();
+  try {
+    let out: { status: number; body: Record<string, unknown>; share?: ShareDoc } | null = null;
+    await mongoSession.withTransaction(async () => {
+      const share = await CreditShareModel.findById(shareIdStr).session(mongoSession);
+      if (!share) {
+        out = { status: 404, body: { error: "Share not found" } };
+        return;
+      }
+      const failed = await apply(share, mongoSession);
+      if (failed) {
+        out = { status: failed.status, body: { error: failed.error } };
+        // Persist lazy expiry even when the request itself fails
+        if (share.isModified()) await share.save({ session: mongoSession });
+        return;
+      }
+      await share.save({ session: mongoSession });
+      out = { status: 200, body: { ok: true }, share: share.toObject() as ShareDoc };
+    });
+    return out ?? { status: 500, body: { error: "Unknown error" } };
+  } finally {
+    mongoSession.endSession();
+  }
+}
+
+function expireIfDue(share: any, now: Date): boolean {
+  if (share.status === "pending" && share.expiresAt.getTime() <= now.getTime()) {
+    share.status = "expired";
+    return true;
+  }
+  return false;
+}
+
+// Recipient accepts: credits move now (paired share_out / share_in).
+creditsRouter.post("/shares/:id/accept", idempotent, asyncHandler(async (req, res) => {
+  const userId = req.user!.id;
+  const result = await updateShare(req.params.id, async (share, mongoSession) => {
+    if (String(share.toUserId) !== userId) return { status: 404, error: "Share not found" };
+    const now = new Date();
+    if (expireIfDue(share, now)) return { status: 409, error: "Share has expired" };
+    if (share.status !== "pending") return { status: 409, error: "Share is no longer pending" };
+
+    const senderBalance = await getCreditBalance(share.fromUserId, mongoSession);
+    if (senderBalance < share.amount) return { status: 409, error: "Sender no longer has enough credits" };
+
+    await writeShareTransfer(
+      { fromUserId: share.fromUserId, toUserId: share.toUserId, amount: share.amount, shareId: share._id },
+      mongoSession
+    );
+    share.status = "accepted";
+    share.acceptedAt = now;
+    share.reversibleUntil = new Date(now.getTime() + env.CREDIT_SHARE_REVERSAL_HOURS * 60 * 60 * 1000);
+    return null;
+  });
+
+  if (result.share) {
+    await persistAndNotify([String(result.share.fromUserId)], "credit_share_accepted", {
+      shareId: String(result.share._id),
+      amount: result.share.amount,
+      reversibleUntil: result.share.reversibleUntil,
+    });
+  }
+  res.status(result.status).json({ ...result.body, balance: await getCreditBalance(userId) });
+}));
+
+creditsRouter.post("/shares/:id/decline", asyncHandler(async (req, res) => {
+  const userId = req.user!.id;
+  const result = await updateShare(req.params.id, async (share) => {
+    if (String(share.toUserId) !== userId) return { status: 404, error: "Share not found" };
+    if (expireIfDue(share, new Date())) return { status: 409, error: "Share has expired" };
+    if (share.status !== "pending") return { status: 409, error: "Share is no longer pending" };
+    share.status = "declined";
+    share.declinedAt = new Date();
+    return null;
+  });
+
+  if (result.share) {
+    await persistAndNotify([String(result.share.fromUserId)], "credit_share_declined", {
+      shareId: String(result.share._id),
+      amount: result.share.amount,
+    });
+  }
+  res.status(result.status).json(result.body);
+}));
+
+// Sender withdraws a share the recipient has not accepted yet.
+creditsRouter.post("/shares/:id/cancel", asyncHandler(async (req, res) => {
+  const userId = req.user!.id;
+  const result = await updateShare(req.params.id, async (share) => {
+    if (String(share.fromUserId) !== userId) return { status: 404, error: "Share not found" };
+    if (expireIfDue(share, new Date())) return { status: 409, error: "Share has expired" };
+    if (share.status !== "pending") return { status: 409, error: "Share is no longer pending" };
+    share.status = "cancelled";
+    share.cancelledAt = new Date();
+    return null;
+  });
+  res.status(result.status).json(result.body);
+}));
+
+// Sender takes accepted credits back within the reversal window (the recipient must still have them).
+creditsRouter.post("/shares/:id/reverse", idempotent, asyncHandler(async (req, res) => {
+  const userId = req.user!.id;
+  const result = await updateShare(req.params.id, async (share, mongoSession) => {
+    if (String(share.fromUserId) !== userId) return { status: 404, error: "Share not found" };
+    if (share.status !== "accepted") return { status: 409, error: "Only accepted shares can be reversed" };
+    const now = new Date();
+    if (!share.reversibleUntil || share.reversibleUntil.getTime() <= now.getTime()) {
+      return { status: 409, error: "The reversal window has passed" };
+    }
+    const recipientBalance = await getCreditBalance(share.toUserId, mongoSession);
+    if (recipientBalance < share.amount) return { status: 409, error: "The recipient has already used these credits" };
+
+    await writeShareTransfer(
+      { fromUserId: share.toUserId, toUserId: share.fromUserId, amount: share.amount, shareId: share._id },
+      mongoSession
+    );
+    share.status = "reversed";
+    share.reversedAt = now;
+    return null;
+  });
+
+  if (result.share) {
+    await persistAndNotify([String(result.share.toUserId)], "credit_share_reversed", {
+      shareId: String(result.share._id),
+      amount: result.share.amount,
+    });
+  }
+  res.status(result.status).json({ ...result.body, balance: await getCreditBalance(userId) });
+}));
+
 const PurchaseSchema = z.object({
-  credits: z.number().int().min(1).max(500),
-  method: z.enum(["mock_card", "mock_paypal"]).default("mock_card"),
+  packageId: z.string().min(1),
   referralCode: z.string().trim().max(80).optional(),
+  promoCode: z.string().trim().min(1).max(40).optional(),
+  // Fake provider only: override FAKE_PAYMENT_OUTCOME for this checkout
+  simulate: z.enum(["success", "failure", "manual"]).optional(),
 });
 
-// Fake purchase (no payment provider). Just writes to DB ledger.
-creditsRouter.post("/purchase", asyncHandler(async (req, res) => {
+// Buy a credit package: starts a checkout with the payment provider. Credits are added once the provider
+// confirms the payment (webhook); poll GET /payments/:id for the result.
+creditsRouter.post("/purchase", idempotent, asyncHandler(async (req, res) => {
   const parsed = PurchaseSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
 
-  const userId = req.user!.id;
-  const { credits, method, referralCode } = parsed.data;
-
-  await CreditTransactionModel.create({
-    userId: new Types.ObjectId(userId),
-    type: "purchase",
-    amount: credits,
-    currency: "credits",
-    meta: { method, referralCode: referralCode ?? "" },
-    related: {
-      // store a marker-like id so we can trace purchases later even without a Payment model
-      paymentId: new Types.ObjectId(),
+  const { packageId, referralCode, promoCode, simulate } = parsed.data;
+  if (simulate && !fakePaymentsEnabled()) {
+    return res.status(400).json({ error: "simulate is only available with the fake payment provider" });
+  }
+  if (!Types.ObjectId.isValid(packageId)) return res.status(400).json({ error: "Invalid packageId" });
+  const pkg = (await CreditPackageModel.findOne({ _id: packageId, ...purchasablePackageFilter(new Date()) }).lean()) as any | null;
+  if (!pkg) return res.status(404).json({ error: "Package not available" });
+
+  const userId = new Types.ObjectId(req.user!.id);
+  // The referral is only recorded once the payment succeeds, so a failed purchase does not tie the student
+  if (referralCode) {
+    const referral = await checkReferral(userId, referralCode);
+    if (!referral.ok) return res.status(referral.status).json({ error: referral.error });
+  }
+  let promo: PromoQuote | undefined;
+  if (promoCode) {
+    const reserved = await reservePromoCode(promoCode, userId, pkg.priceCents);
+    if (!reserved.ok) return res.status(reserved.status).json({ error: reserved.error });
+    promo = reserved.value;
+  }
+
+  try {
+    const payment = await startPackageCheckout({
+      userId: req.user!.id,
+      pkg,
+      referralCode,
+      promo,
+      metadata: simulate ? { simulate } : undefined,
+    });
+    res.status(201).json({ payment: paymentRow(payment), package: packageRow(pkg) });
+  } catch (e: any) {
+    // eslint-disable-next-line no-console
+    console.error("[payments] checkout failed", String(e?.message || e));
+    res.status(502).json({ error: "Could not start the payment" });
+  }
+}));
+
+// My referral code and how my referrals are doing
+creditsRouter.get("/referral", asyncHandler(async (req, res) => {
+  const userId = new Types.ObjectId(req.user!.id);
+  const code = await getOrCreateReferralCode(userId);
+  const [counts, referredBy] = await Promise.all([
+    ReferralModel.aggregate([
+      { $match: { referrerUserId: userId } },
+      { $group: { _id: "$status", count: { $sum: 1 }, credits: { $sum: "$rewardCredits" } } },
+    ]),
+    ReferralModel.findOne({ referredUserId: userId }).select("code status").lean(),
+  ]);
+  const byStatus = new Map(counts.map((c: any) => [String(c._id), c]));
+  res.json({
+    code,
+    rewardCredits: env.REFERRAL_REWARD_CREDITS,
+    referrals: {
+      pending: byStatus.get("pending")?.count ?? 0,
+      rewarded: byStatus.get("rewarded")?.count ?? 0,
+      creditsEarned: byStatus.get("rewarded")?.credits ?? 0,
     },
+    referredBy: referredBy ? { code: (referredBy as any).code, status: (referredBy as any).status } : null,
   });
+}));
 
-  const agg = await CreditTransactionModel.aggregate([
-    { $match: { userId: { $eq: new Types.ObjectId(userId) } } },
-    { $group: { _id: null, balance: { $sum: "$amount" } } },
-  ]);
-  const balance = agg[0]?.balance ?? 0;
+const ClaimReferralSchema = z.object({ code: z.string().trim().min(1).max(80) });
 
-  res.status(201).json({ ok: true, method, balance });
-}));
+// Enter another student's referral code (new students only; also accepted as `referralCode` on purchase)
+creditsRouter.post("/referral/claim", asyncHandler(async (req, res) => {
+  const parsed = ClaimReferralSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
 
+  const result = await attachReferral(new Types.ObjectId(req.user!.id), parsed.data.code);
+  if (!result.ok) return res.status(result.status).json({ error: result.error });
+  res.json({ ok: true });
+}));
@@ -0,0 +1,25 @@
+import crypto from "crypto";
+import { Router } from "express";
+import { env } from "../config/env";
+import { runJobsOnce } from "../jobs";
+import { asyncHandler } from "../utils/asyncHandler";
+
+export const cronRouter = Router();
+
+function authorized(header: string | undefined): boolean {
+  if (!env.CRON_SECRET) return false;
+  const given = Buffer.from(header || "");
+  const expected = Buffer.from(`Bearer ${env.CRON_SECRET}`);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+// One scheduler tick for deployments without a long-running server (Vercel Cron calls this; see vercel.json).
+// Jobs claim their work with conditional updates, so overlapping calls are safe.
+cronRouter.get("/tick", asyncHandler(async (req, res) => {
+  if (!env.CRON_SECRET) return res.status(404).json({ error: "Not Found" });
+  if (!authorized(req.header("authorization"))) return res.status(401).json({ error: "Unauthorized" });
+
+  const jobs = await runJobsOnce();
+  if (!jobs) return res.status(409).json({ error: "A tick is already running" });
+  return res.status(jobs.every((j) => j.ok) ? 200 : 500).json({ ok: jobs.every((j) => j.ok), jobs });
+}));
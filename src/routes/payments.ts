@@ -0,0 +1,75 @@
+import { Router } from "express";
+import { Types } from "mongoose";
+import { z } from "zod";
+import { requireAuth, requireRole } from "../middleware/auth";
+import { PaymentModel } from "../models/Payment";
+import { fakePaymentsEnabled, getPaymentProvider, WebhookSignatureError } from "../payments";
+import { applyPaymentEvent, paymentRow } from "../services/payments";
+import { asyncHandler } from "../utils/asyncHandler";
+
+export const paymentsRouter = Router();
+
+// Provider webhooks (public; authenticated by the provider signature over the raw body)
+paymentsRouter.post("/webhook/:provider", asyncHandler(async (req, res) => {
+  const provider = getPaymentProvider(req.params.provider);
+  if (!provider) return res.status(404).json({ error: "Unknown payment provider" });
+  if (!req.rawBody) return res.status(400).json({ error: "Missing body" });
+
+  let event;
+  try {
+    event = provider.parseWebhook(req.rawBody, req.headers);
+  } catch (e) {
+    if (e instanceof WebhookSignatureError) return res.status(401).json({ error: e.message });
+    return res.status(400).json({ error: "Invalid webhook payload" });
+  }
+  if (!event) return res.json({ received: true, ignored: true });
+
+  const known = await applyPaymentEvent(provider.name, event);
+  // Unknown payments are acknowledged so the provider stops retrying.
+  return res.json({ received: true, ignored: !known });
+}));
+
+paymentsRouter.use(requireAuth, requireRole("student"));
+
+// My payments
+paymentsRouter.get("/", asyncHandler(async (req, res) => {
+  const payments = await PaymentModel.find({ userId: new Types.ObjectId(req.user!.id) })
+    .sort({ createdAt: -1 })
+    .limit(100)
+    .lean();
+  res.json({ payments: (payments as any[]).map(paymentRow) });
+}));
+
+paymentsRouter.get("/:id", asyncHandler(async (req, res) => {
+  if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: "Invalid payment id" });
+  const payment = await PaymentModel.findOne({ _id: req.params.id, userId: req.user!.id }).lean();
+  if (!payment) return res.status(404).json({ error: "Payment not found" });
+  res.json({ payment: paymentRow(payment) });
+}));
+
+if (fakePaymentsEnabled()) {
+  const FakeCompleteSchema = z.object({
+    outcome: z.enum(["success", "failure"]).default("success"),
+  });
+
+  // Fake provider only (not registered otherwise): settle a pending checkout by hand
+  // (FAKE_PAYMENT_OUTCOME=manual or simulate: "manual").
+  paymentsRouter.post("/:id/fake-complete", asyncHandler(async (req, res) => {
+    const parsed = FakeCompleteSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: "Invalid payment id" });
+
+    const payment = (await PaymentModel.findOne({ _id: req.params.id, userId: req.user!.id }).lean()) as any | null;
+    if (!payment) return res.status(404).json({ error: "Payment not found" });
+    if (payment.provider !== "fake") return res.status(400).json({ error: "Only fake payments can be completed by hand" });
+
+    await applyPaymentEvent("fake", {
+      id: `evt_manual_${String(payment._id)}`,
+      type: parsed.data.outcome === "success" ? "payment.succeeded" : "payment.failed",
+      providerRef: payment.providerRef,
+      failureReason: parsed.data.outcome === "failure" ? "card_declined" : undefined,
+    });
+    const updated = await PaymentModel.findById(payment._id).lean();
+    res.json({ payment: paymentRow(updated) });
+  }));
+}
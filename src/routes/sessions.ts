@@ -1,13 +1,15 @@
 import { Router } from "express";
 import { z } from "zod";
-import { ClassSessionModel } from "../models/ClassSession";
+import { ClassSessionModel, LESSON_DURATIONS } from "../models/ClassSession";
+import { TeacherProfileModel } from "../models/TeacherProfile";
 import { asyncHandler } from "../utils/asyncHandler";
+import { isValidTimeZone } from "../utils/timezone";
 
 export const sessionsRouter = Router();
 
 const QuerySchema = z.object({
   teacherId: z.string().optional(),
-  status: z.enum(["open", "booked", "cancelled"]).optional(),
+  status: z.enum(["open", "booked", "full", "cancelled"]).optional(),
   from: z.string().datetime().optional(),
   to: z.string().datetime().optional(),
 });
@@ -20,7 +22,8 @@ sessionsRouter.get("/", asyncHandler(async (req, res) => {
 
   const q: any = {};
   if (teacherId) q.teacherId = teacherId;
-  if (status) q.status = status;
+  // "booked" predates group classes; both it and "full" mean no seat is left.
+  if (status) q.status = status === "booked" || status === "full" ? { $in: ["booked", "full"] } : status;
   if (from || to) {
     q.startAt = {};
     if (from) q.startAt.$gte = new Date(from);
@@ -29,9 +32,173 @@ sessionsRouter.get("/", asyncHandler(async (req, res) => {
 
   const sessions = await ClassSessionModel.find(q)
     .sort({ startAt: 1 })
-    .select("teacherId startAt endAt status priceCredits meetingLink")
+    .select("teacherId startAt endAt durationMinutes capacity seatsBooked status priceCredits meetingLink")
     .lean();
 
   res.json({ sessions });
 }));
 
+
+const HM = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_SEARCH_DAYS = 60;
+
+const csv = <T extends z.ZodTypeAny>(item: T) =>
+  z
+    .string()
+    .transform((v) => v.split(",").map((x) => x.trim()).filter(Boolean))
+    .pipe(z.array(item).min(1));
+
+const SearchSchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  // Student's timezone: days and times below are interpreted in it, and slots get a local start time.
+  tz: z.string().default("UTC").refine(isValidTimeZone, { message: "Invalid IANA timezone" }),
+  days: csv(z.coerce.number().int().min(0).max(6)).optional(), // 0 = Sunday
+  timeFrom: z.string().regex(HM).optional(),
+  timeTo: z.string().regex(HM).optional(),
+  country: csv(z.string().max(100)).optional(),
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  minPrice: z.coerce.number().int().min(0).optional(),
+  maxPrice: z.coerce.number().int().min(0).optional(),
+  duration: csv(z.coerce.number().refine((d) => (LESSON_DURATIONS as readonly number[]).includes(d))).optional(),
+  sort: z.enum(["soonest", "rating"]).default("soonest"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(10),
+  slotsPerTeacher: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+function hmToMinutes(hm: string) {
+  const [h, m] = hm.split(":").map(Number);
+  return h * 60 + m;
+}
+
+// Discovery: open slots across teachers, grouped by teacher (page = teachers).
+sessionsRouter.get("/search", asyncHandler(async (req, res) => {
+  const parsed = SearchSchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid query", details: parsed.error.flatten() });
+  const q = parsed.data;
+
+  const now = new Date();
+  const from = q.from && new Date(q.from) > now ? new Date(q.from) : now;
+  const to = q.to ? new Date(q.to) : new Date(from.getTime() + 14 * 24 * 60 * 60 * 1000);
+  if (to <= from) return res.status(400).json({ error: "Invalid time range" });
+  if (to.getTime() - from.getTime() > MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000) {
+    return res.status(400).json({ error: `Time range cannot exceed ${MAX_SEARCH_DAYS} days` });
+  }
+
+  const match: any = { status: "open", startAt: { $gte: from, $lt: to } };
+  if (q.minPrice !== undefined || q.maxPrice !== undefined) {
+    match.priceCredits = {};
+    if (q.minPrice !== undefined) match.priceCredits.$gte = q.minPrice;
+    if (q.maxPrice !== undefined) match.priceCredits.$lte = q.maxPrice;
+  }
+  if (q.duration) match.durationMinutes = { $in: q.duration };
+
+  if (q.country || q.minRating !== undefined) {
+    const teacherQuery: any = {};
+    if (q.country) teacherQuery.country = { $in: q.country.map((c) => new RegExp(`^${c.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`, "i")) };
+    if (q.minRating !== undefined) teacherQuery["stats.ratingAvg"] = { $gte: q.minRating };
+    const teacherIds = await TeacherProfileModel.find(teacherQuery).distinct("_id");
+    match.teacherId = { $in: teacherIds };
+  }
+
+  // Day-of-week / time-of-day in the student's timezone
+  const localFilters: any[] = [];
+  if (q.days) localFilters.push({ $in: [{ $subtract: ["$local.dayOfWeek", 1] }, q.days] });
+  if (q.timeFrom || q.timeTo) {
+    const start = hmToMinutes(q.timeFrom ?? "00:00");
+    const end = q.timeTo ? hmToMinutes(q.timeTo) : 24 * 60;
+    const minute = "$local.minuteOfDay";
+    // timeFrom > timeTo means a window across midnight (e.g. 22:00-02:00)
+    localFilters.push(
+      start <= end
+        ? { $and: [{ $gte: [minute, start] }, { $lt: [minute, end] }] }
+        : { $or: [{ $gte: [minute, start] }, { $lt: [minute, end] }] }
+    );
+  }
+
+  const [result] = await ClassSessionModel.aggregate([
+    { $match: match },
+    {
+      $addFields: {
+        local: {
+          dayOfWeek: { $dayOfWeek: { date: "$startAt", timezone: q.tz } },
+          minuteOfDay: {
+            $add: [
+              { $multiply: [{ $hour: { date: "$startAt", timezone: q.tz } }, 60] },
+              { $minute: { date: "$startAt", timezone: q.tz } },
+            ],
+          },
+          startAt: { $dateToString: { date: "$startAt", format: "%Y-%m-%dT%H:%M", timezone: q.tz } },
+        },
+      },
+    },
+    ...(localFilters.length ? [{ $match: { $expr: { $and: localFilters } } }] : []),
+    { $sort: { startAt: 1 } },
+    {
+      $group: {
+        _id: "$teacherId",
+        firstStartAt: { $first: "$startAt" },
+        slotCount: { $sum: 1 },
+        slots: {
+          $push: {
+            id: "$_id",
+            startAt: "$startAt",
+            endAt: "$endAt",
+            localStartAt: "$local.startAt",
+            durationMinutes: "$durationMinutes",
+            priceCredits: "$priceCredits",
+            capacity: { $ifNull: ["$capacity", 1] },
+            seatsBooked: { $ifNull: ["$seatsBooked", 0] },
+          },
+        },
+      },
+    },
+    {
+      $lookup: {
+        from: "teacherprofiles",
+        localField: "_id",
+        foreignField: "_id",
+        as: "teacher",
+        pipeline: [{ $project: { name: 1, bio: 1, country: 1, timezone: 1, photoUrl: 1, stats: { ratingAvg: 1, ratingCount: 1 } } }],
+      },
+    },
+    { $unwind: "$teacher" },
+    { $sort: q.sort === "rating" ? { "teacher.stats.ratingAvg": -1, firstStartAt: 1 } : { firstStartAt: 1, _id: 1 } },
+    {
+      $facet: {
+        total: [{ $count: "n" }],
+        teachers: [
+          { $skip: (q.page - 1) * q.pageSize },
+          { $limit: q.pageSize },
+          { $project: { _id: 0, teacher: 1, slotCount: 1, slots: { $slice: ["$slots", q.slotsPerTeacher] } } },
+        ],
+      },
+    },
+  ]);
+
+  const totalTeachers = Number(result?.total?.[0]?.n ?? 0);
+  const teachers = ((result?.teachers ?? []) as any[]).map((t) => ({
+    teacher: {
+      id: String(t.teacher._id),
+      name: String(t.teacher.name || "Teacher"),
+      bio: String(t.teacher.bio || ""),
+      country: String(t.teacher.country || ""),
+      timezone: String(t.teacher.timezone || ""),
+      photoUrl: String(t.teacher.photoUrl || ""),
+      ratingAvg: Number(t.teacher.stats?.ratingAvg ?? 0),
+      ratingCount: Number(t.teacher.stats?.ratingCount ?? 0),
+    },
+    slotCount: t.slotCount,
+    slots: (t.slots as any[]).map((s) => ({ ...s, id: String(s.id), durationMinutes: Number(s.durationMinutes ?? 25) })),
+  }));
+
+  res.json({
+    tz: q.tz,
+    page: q.page,
+    pageSize: q.pageSize,
+    totalTeachers,
+    totalPages: Math.ceil(totalTeachers / q.pageSize),
+    teachers,
+  });
+}));
@@ -0,0 +1,147 @@
+import { Router } from "express";
+import { Types } from "mongoose";
+import { z } from "zod";
+import { requireAuth, requireRole } from "../middleware/auth";
+import { idempotent } from "../middleware/idempotency";
+import { SubscriptionModel } from "../models/Subscription";
+import { SubscriptionPlanModel } from "../models/SubscriptionPlan";
+import { fakePaymentsEnabled } from "../payments";
+import { paymentRow, startSubscriptionCheckout } from "../services/payments";
+import { planRow, subscriptionRow } from "../services/subscriptions";
+import { asyncHandler } from "../utils/asyncHandler";
+
+export const subscriptionsRouter = Router();
+
+// Public plan catalog (registered before the auth middleware)
+subscriptionsRouter.get("/plans", asyncHandler(async (_req, res) => {
+  const plans = await SubscriptionPlanModel.find({ active: true, visible: true }).sort({ sortOrder: 1, priceCents: 1 }).lean();
+  res.json({ plans: (plans as any[]).map(planRow) });
+}));
+
+subscriptionsRouter.use(requireAuth, requireRole("student"));
+
+// My subscriptions, newest first (the current one, if any, is `current`)
+subscriptionsRouter.get("/", asyncHandler(async (req, res) => {
+  const subs = (await SubscriptionModel.find({ userId: req.user!.id }).sort({ createdAt: -1 }).limit(50).lean()) as any[];
+  const current = subs.find((s) => s.status !== "cancelled") ?? null;
+  res.json({ current: current ? subscriptionRow(current) : null, subscriptions: subs.map(subscriptionRow) });
+}));
+
+const SubscribeSchema = z.object({
+  planId: z.string().min(1),
+  // Fake provider only: override FAKE_PAYMENT_OUTCOME for the first payment
+  simulate: z.enum(["success", "failure", "manual"]).optional(),
+});
+
+// Subscribe to a plan: starts the checkout for the first period. The subscription becomes active (and the
+// period's credits are added) once the provider confirms the payment.
+subscriptionsRouter.post("/", idempotent, asyncHandler(async (req, res) => {
+  const parsed = SubscribeSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+
+  const { planId, simulate } = parsed.data;
+  if (simulate && !fakePaymentsEnabled()) {
+    return res.status(400).json({ error: "simulate is only available with the fake payment provider" });
+  }
+  if (!Types.ObjectId.isValid(planId)) return res.status(400).json({ error: "Invalid planId" });
+  const plan = (await SubscriptionPlanModel.findOne({ _id: planId, active: true }).lean()) as any | null;
+  if (!plan) return res.status(404).json({ error: "Plan not available" });
+
+  const userId = new Types.ObjectId(req.user!.id);
+  if (await SubscriptionModel.exists({ userId, status: { $ne: "cancelled" } })) {
+    return res.status(409).json({ error: "You already have a subscription" });
+  }
+
+  let sub;
+  try {
+    sub = await SubscriptionModel.create({
+      userId,
+      planId: plan._id,
+      planName: plan.name,
+      creditsPerPeriod: plan.creditsPerPeriod,
+      periodMonths: plan.periodMonths ?? 1,
+      priceCents: plan.priceCents,
+      currency: plan.currency,
+      rolloverCap: plan.rolloverCap ?? 0,
+      status: "incomplete",
+    });
+  } catch (e: any) {
+    // A concurrent request created the live subscription first (unique index)
+    if (e?.code === 11000) return res.status(409).json({ error: "You already have a subscription" });
+    throw e;
+  }
+
+  try {
+    const payment = await startSubscriptionCheckout({
+      subscriptionId: sub._id,
+      periodStart: new Date(),
+      metadata: simulate ? { simulate } : undefined,
+    });
+    const fresh = await SubscriptionModel.findById(sub._id).lean();
+    res.status(201).json({ subscription: subscriptionRow(fresh), payment: payment ? paymentRow(payment) : null });
+  } catch (e: any) {
+    // eslint-disable-next-line no-console
+    console.error("[payments] subscription checkout failed", String(e?.message || e));
+    res.status(502).json({ error: "Could not start the payment" });
+  }
+}));
+
+async function findMine(req: any) {
+  if (!Types.ObjectId.isValid(req.params.id)) return null;
+  return SubscriptionModel.findOne({ _id: req.params.id, userId: req.user!.id });
+}
+
+// Pause renewals: no charge and no new credits until resumed (credits already granted stay usable).
+subscriptionsRouter.post("/:id/pause", asyncHandler(async (req, res) => {
+  const sub = await findMine(req);
+  if (!sub) return res.status(404).json({ error: "Subscription not found" });
+  if (!["active", "past_due"].includes(sub.status)) {
+    return res.status(409).json({ error: "Only active subscriptions can be paused" });
+  }
+  if (sub.pendingPaymentId) return res.status(409).json({ error: "A payment for this subscription is in progress" });
+
+  sub.set({ status: "paused", pausedAt: new Date(), nextRenewalAttemptAt: undefined });
+  await sub.save();
+  res.json({ subscription: subscriptionRow(sub.toObject()) });
+}));
+
+// Resume a paused subscription (or undo a cancel-at-period-end). If the paid period is already over,
+// the next period starts now and is charged on the next renewal run.
+subscriptionsRouter.post("/:id/resume", asyncHandler(async (req, res) => {
+  const sub = await findMine(req);
+  if (!sub) return res.status(404).json({ error: "Subscription not found" });
+  if (sub.status !== "paused" && !(sub.cancelAtPeriodEnd && ["active", "past_due"].includes(sub.status))) {
+    return res.status(409).json({ error: "Subscription is not paused or scheduled to cancel" });
+  }
+
+  const now = new Date();
+  if (sub.status === "paused") {
+    sub.set({ status: "active", pausedAt: undefined, renewalAttempts: 0 });
+    if (!sub.currentPeriodEnd || sub.currentPeriodEnd.getTime() < now.getTime()) sub.currentPeriodEnd = now;
+  }
+  sub.set({ cancelAtPeriodEnd: false, cancelReason: "" });
+  await sub.save();
+  res.json({ subscription: subscriptionRow(sub.toObject()) });
+}));
+
+const CancelSchema = z.object({ reason: z.string().trim().max(300).optional() });
+
+// Cancel at the end of the paid period (credits already granted stay usable). A subscription whose
+// first payment is still open is cancelled right away.
+subscriptionsRouter.post("/:id/cancel", asyncHandler(async (req, res) => {
+  const parsed = CancelSchema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+
+  const sub = await findMine(req);
+  if (!sub) return res.status(404).json({ error: "Subscription not found" });
+  if (sub.status === "cancelled") return res.status(409).json({ error: "Subscription is already cancelled" });
+
+  if (sub.status === "incomplete") {
+    sub.set({ status: "cancelled", cancelledAt: new Date() });
+  } else {
+    sub.set({ cancelAtPeriodEnd: true });
+  }
+  sub.set({ cancelReason: parsed.data.reason ?? "" });
+  await sub.save();
+  res.json({ subscription: subscriptionRow(sub.toObject()) });
+}));
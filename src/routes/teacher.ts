@@ -1,23 +1,35 @@
 import { Router } from "express";
 import { z } from "zod";
-import { Types } from "mongoose";
-import { google } from "googleapis";
+import mongoose, { Types } from "mongoose";
 
 import { requireAuth, requireRole } from "../middleware/auth";
 import { asyncHandler } from "../utils/asyncHandler";
 import { TeacherProfileModel } from "../models/TeacherProfile";
 import { TeacherAvailabilityModel } from "../models/TeacherAvailability";
-import { ClassSessionModel } from "../models/ClassSession";
+import { ClassSessionModel, LESSON_DURATIONS } from "../models/ClassSession";
 import { BookingModel } from "../models/Booking";
 import { StudentProfileModel } from "../models/StudentProfile";
 import { ClassReportModel } from "../models/ClassReport";
 import { LessonRatingModel } from "../models/LessonRating";
-import { UserModel } from "../models/User";
-import { decryptString } from "../utils/crypto";
 import { env } from "../config/env";
 import { persistAndNotify, notifyUsers } from "../ws/emit";
 import { LessonMessageModel } from "../models/LessonMessage";
 import { getBookingChatParticipant } from "../services/lessonChat";
+import {
+  buildAvailabilitySlots,
+  lessonDurationBetween,
+  type OverrideRange,
+  type WeeklyBlock,
+} from "../services/sessionSlots";
+import { calendarForUser, deleteCalendarEvent } from "../services/googleCalendar";
+import { endSessionMeeting } from "../services/bbbMeetings";
+import { completeBooking, markBookingNoShow } from "../services/lessonCompletion";
+import { offerNextInLine } from "../services/waitlist";
+import { postCreditTransaction } from "../services/credits";
+import { buildStatement, earningRow, payoutRow, statementCsv } from "../services/teacherEarnings";
+import { TeacherEarningModel } from "../models/TeacherEarning";
+import { TeacherPayoutModel } from "../models/TeacherPayout";
+import { isValidTimeZone } from "../utils/timezone";
 
 export const teacherRouter = Router();
 
@@ -70,7 +82,12 @@ teacherRouter.get(
 const TeacherProfileUpdateSchema = z.object({
   name: z.string().trim().max(120).optional(),
   bio: z.string().trim().max(5000).optional(),
-  timezone: z.string().trim().max(80).optional(),
+  timezone: z
+    .string()
+    .trim()
+    .max(80)
+    .refine((tz) => tz === "" || isValidTimeZone(tz), "Unknown IANA timezone")
+    .optional(),
   country: z.string().trim().max(80).optional(),
   photoUrl: z.string().trim().max(2000).optional(),
   phone: z.string().trim().max(80).optional(),
@@ -124,7 +141,7 @@ const AvailabilityCreateSchema = z
     weekday: z.number().int().min(0).max(6).optional(),
     startTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
     endTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
-    timezone: z.string().optional(),
+    timezone: z.string().trim().refine(isValidTimeZone, "Unknown IANA timezone").optional(),
     // override
     startAt: z.string().datetime().optional(),
     endAt: z.string().datetime().optional(),
@@ -199,11 +216,20 @@ teacherRouter.get(
   })
 );
 
+const MAX_SESSION_CAPACITY = 20;
+
+// Sessions with at least one seat taken (legacy one-to-one sessions use status "booked").
+const SESSION_HAS_BOOKINGS = {
+  $or: [{ status: { $in: ["booked", "full"] } }, { status: "open", seatsBooked: { $gt: 0 } }],
+};
+
 const SessionCreateSchema = z.object({
   startAt: z.string().datetime(),
   endAt: z.string().datetime(),
   priceCredits: z.number().int().min(1).default(1),
   meetingLink: z.string().trim().max(2000).optional(),
+  // Group classes: seats per session (1 = one-to-one)
+  capacity: z.number().int().min(1).max(MAX_SESSION_CAPACITY).default(1),
 });
 
 teacherRouter.post(
@@ -215,11 +241,19 @@ teacherRouter.post(
     const teacherId = await ensureTeacherProfileId(req.user!.id, req.user!.email);
     if (!teacherId) return res.status(404).json({ error: "Teacher profile not found" });
 
+    const startAt = new Date(parsed.data.startAt);
+    const endAt = new Date(parsed.data.endAt);
+    const durationMinutes = lessonDurationBetween(startAt, endAt);
+    if (!durationMinutes) return res.status(400).json({ error: "Session length must be 25, 50 or 80 minutes" });
+
     const doc = await ClassSessionModel.create({
       teacherId,
-      startAt: new Date(parsed.data.startAt),
-      endAt: new Date(parsed.data.endAt),
+      startAt,
+      endAt,
+      durationMinutes,
       priceCredits: parsed.data.priceCredits,
+      capacity: parsed.data.capacity,
+      seatsBooked: 0,
       meetingLink: parsed.data.meetingLink ?? "",
       status: "open",
     });
@@ -232,8 +266,23 @@ const SessionPatchSchema = z.object({
   meetingLink: z.string().trim().max(2000).optional(),
   status: z.enum(["open", "cancelled"]).optional(),
   priceCredits: z.number().int().min(1).optional(),
+  capacity: z.number().int().min(1).max(MAX_SESSION_CAPACITY).optional(),
+  // Shown to booked students when the teacher cancels
+  cancellationReason: z.string().trim().max(500).optional(),
 });
 
+async function refreshTeacherCancellationStats(teacherId: Types.ObjectId) {
+  const [teacherCancellations, relevantBookings] = await Promise.all([
+    BookingModel.countDocuments({ teacherId, status: "cancelled", cancelledBy: "teacher" }),
+    BookingModel.countDocuments({ teacherId, cancelledBy: { $ne: "student" } }),
+  ]);
+  const cancellationRate = relevantBookings > 0 ? Math.round((teacherCancellations / relevantBookings) * 10000) / 10000 : 0;
+  await TeacherProfileModel.updateOne(
+    { _id: teacherId },
+    { $set: { "stats.teacherCancellations": teacherCancellations, "stats.cancellationRate": cancellationRate } }
+  );
+}
+
 teacherRouter.patch(
   "/sessions/:id",
   asyncHandler(async (req, res) => {
@@ -245,22 +294,125 @@ teacherRouter.patch(
 
     const parsed = SessionPatchSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    const { cancellationReason, ...patch } = parsed.data;
+
+    if (patch.status !== "cancelled") {
+      const { capacity, ...fields } = patch;
+      let session = await ClassSessionModel.findOneAndUpdate(
+        { _id: id, teacherId },
+        { $set: fields },
+        { new: true }
+      ).lean();
+      if (!session) return res.status(404).json({ error: "Session not found" });
+
+      if (capacity !== undefined || fields.status === "open") {
+        // Keep open/full in line with the seats; capacity cannot drop below the seats already booked.
+        const seatsBooked = { $ifNull: ["$seatsBooked", 0] };
+        const newCapacity = capacity ?? { $ifNull: ["$capacity", 1] };
+        session = await ClassSessionModel.findOneAndUpdate(
+          { _id: id, teacherId, $expr: { $lte: [seatsBooked, newCapacity] } },
+          [
+            { $set: { capacity: newCapacity } },
+            {
+              $set: {
+                status: {
+                  $cond: [
+                    { $eq: ["$status", "cancelled"] },
+                    "$status",
+                    { $cond: [{ $gte: [seatsBooked, "$capacity"] }, "full", "open"] },
+                  ],
+                },
+              },
+            },
+          ],
+          { new: true }
+        ).lean();
+        if (!session) return res.status(409).json({ error: "Capacity is below the number of booked seats" });
+        if ((session as { status?: string }).status === "open") await offerNextInLine(id);
+      }
+      return res.json({ session });
+    }
 
-    const session = await ClassSessionModel.findOneAndUpdate(
-      { _id: id, teacherId },
-      { $set: parsed.data },
-      { new: true }
-    ).lean();
+    // Teacher cancellation: cancel every active booking on the session and refund it in full, atomically.
+    const reason = cancellationReason || "Cancelled by teacher";
+    const mongoSession = await mongoose.startSession();
+    let session: any = null;
+    let cancelled: { bookingId: string; studentUserId: string; refundCredits: number; calendarEventId: string }[] = [];
+
+    try {
+      await mongoSession.withTransaction(async () => {
+        cancelled = [];
+        session = await ClassSessionModel.findOneAndUpdate(
+          { _id: id, teacherId },
+          { $set: { ...patch, seatsBooked: 0 } },
+          { new: true, session: mongoSession }
+        ).lean();
+        if (!session) return;
+
+        const now = new Date();
+        const bookings = await BookingModel.find({ sessionId: id, status: "booked" }).session(mongoSession);
+        for (const booking of bookings) {
+          booking.status = "cancelled";
+          booking.cancelledAt = now;
+          booking.cancelledBy = "teacher";
+          booking.cancellationReason = reason;
+          booking.refundCredits = booking.priceCredits;
+          booking.refundRule = "full";
+          await booking.save({ session: mongoSession });
+
+          await postCreditTransaction(
+            {
+              userId: booking.studentUserId,
+              type: "refund",
+              amount: booking.priceCredits,
+              meta: { refundRule: "full", refundPercent: 100 },
+              related: { bookingId: booking._id, sessionId: booking.sessionId },
+            },
+            mongoSession,
+            { inheritExpiryFrom: { type: "spend", "related.bookingId": booking._id } }
+          );
+
+          cancelled.push({
+            bookingId: String(booking._id),
+            studentUserId: String(booking.studentUserId),
+            refundCredits: booking.priceCredits,
+            calendarEventId: booking.calendarEventId || "",
+          });
+        }
+      });
+    } finally {
+      mongoSession.endSession();
+    }
 
     if (!session) return res.status(404).json({ error: "Session not found" });
-    if (parsed.data.status === "cancelled") {
-      const bookings = await BookingModel.find({ sessionId: id, status: "booked" }).select("studentUserId").lean();
-      const studentUserIds = bookings.map((b: any) => String(b.studentUserId)).filter(Boolean);
-      if (studentUserIds.length) {
-        await persistAndNotify(studentUserIds, "session_cancelled", { sessionId: id });
+
+    if (cancelled.length) {
+      await endSessionMeeting(id);
+      // Bookings of a group session share one calendar event.
+      const removedEvents = new Map<string, boolean>();
+      for (const c of cancelled) {
+        if (c.calendarEventId) {
+          if (!removedEvents.has(c.calendarEventId)) {
+            removedEvents.set(c.calendarEventId, await deleteCalendarEvent(req.user!.id, c.calendarEventId));
+          }
+          if (removedEvents.get(c.calendarEventId)) {
+            await BookingModel.updateOne({ _id: c.bookingId }, { $set: { calendarEventId: "" } });
+          }
+        }
+        await persistAndNotify([c.studentUserId], "session_cancelled", {
+          sessionId: id,
+          bookingId: c.bookingId,
+          reason,
+          refundCredits: c.refundCredits,
+        });
       }
+      await refreshTeacherCancellationStats(new Types.ObjectId(teacherId));
     }
-    return res.json({ session });
+
+    return res.json({
+      session,
+      cancelledBookings: cancelled.map(({ bookingId, refundCredits }) => ({ bookingId, refundCredits })),
+    });
   })
 );
 
@@ -268,13 +420,18 @@ const GenerateSchema = z.object({
   from: z.string().datetime(),
   to: z.string().datetime(),
   priceCredits: z.number().int().min(1).default(1),
+  durationMinutes: z
+    .number()
+    .int()
+    .refine((m) => (LESSON_DURATIONS as readonly number[]).includes(m), "durationMinutes must be 25, 50 or 80")
+    .default(25),
+  // Gap between consecutive generated lessons (also kept around existing sessions).
+  bufferMinutes: z.number().int().min(0).max(120).default(0),
+  // Do not generate slots starting sooner than this from now.
+  minNoticeHours: z.number().min(0).max(24 * 30).default(0),
+  capacity: z.number().int().min(1).max(MAX_SESSION_CAPACITY).default(1),
 });
 
-function hmToMinutes(hm: string) {
-  const [h, m] = hm.split(":").map((x) => Number(x));
-  return h * 60 + m;
-}
-
 teacherRouter.post(
   "/sessions/generate",
   asyncHandler(async (req, res) => {
@@ -287,36 +444,54 @@ teacherRouter.post(
 
     const from = new Date(parsed.data.from);
     const to = new Date(parsed.data.to);
-    const priceCredits = parsed.data.priceCredits;
-
-    const weekly = await TeacherAvailabilityModel.find({ teacherId, type: "weekly" }).lean();
-    if (!weekly.length) return res.json({ created: 0 });
-
-    const created: any[] = [];
-
-    // Naive slot generation (UTC). Can be upgraded to timezone-aware later.
-    for (let d = new Date(from); d <= to; d = new Date(d.getTime() + 24 * 60 * 60 * 1000)) {
-      const weekday = d.getUTCDay();
-      const blocks = weekly.filter((w: any) => w.weekday === weekday);
-      for (const b of blocks) {
-        if (!b.startTime || !b.endTime) continue;
-        const startMin = hmToMinutes(b.startTime);
-        const endMin = hmToMinutes(b.endTime);
-        for (let t = startMin; t + 25 <= endMin; t += 25) {
-          const startAt = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), 0, 0, 0));
-          startAt.setUTCMinutes(t);
-          const endAt = new Date(startAt.getTime() + 25 * 60 * 1000);
-          created.push({
-            teacherId,
-            startAt,
-            endAt,
-            status: "open",
-            priceCredits,
-            meetingLink: "",
-          });
-        }
-      }
-    }
+    const { priceCredits, durationMinutes, bufferMinutes, minNoticeHours, capacity } = parsed.data;
+    const bufferMs = bufferMinutes * 60 * 1000;
+
+    const [profile, weekly, overrides, existing] = await Promise.all([
+      TeacherProfileModel.findById(teacherId).select("timezone").lean(),
+      TeacherAvailabilityModel.find({ teacherId, type: "weekly" }).lean(),
+      TeacherAvailabilityModel.find({
+        teacherId,
+        type: "override",
+        startAt: { $lt: to },
+        endAt: { $gt: from },
+      }).lean(),
+      // Any live session (of any length) in range blocks overlapping slots, not only exact startAt matches.
+      ClassSessionModel.find({
+        teacherId,
+        status: { $ne: "cancelled" },
+        startAt: { $lt: new Date(to.getTime() + bufferMs) },
+        endAt: { $gt: new Date(from.getTime() - bufferMs) },
+      })
+        .select("startAt endAt")
+        .lean(),
+    ]);
+    if (!weekly.length && !overrides.some((o: any) => o.status === "available")) return res.json({ created: 0 });
+
+    // Weekly blocks are wall-clock times in the block's (or teacher's) IANA timezone.
+    const slots = buildAvailabilitySlots({
+      weekly: weekly as WeeklyBlock[],
+      overrides: overrides as OverrideRange[],
+      from,
+      to,
+      defaultTimezone: (profile as { timezone?: string } | null)?.timezone,
+      slotMinutes: durationMinutes,
+      bufferMinutes,
+      notBefore: new Date(Date.now() + minNoticeHours * 60 * 60 * 1000),
+      busy: existing as unknown as { startAt: Date; endAt: Date }[],
+    });
+
+    const created = slots.map((slot) => ({
+      teacherId,
+      startAt: slot.startAt,
+      endAt: slot.endAt,
+      durationMinutes,
+      capacity,
+      seatsBooked: 0,
+      status: "open",
+      priceCredits,
+      meetingLink: "",
+    }));
 
     if (!created.length) return res.json({ created: 0 });
 
@@ -346,9 +521,13 @@ teacherRouter.get(
     const from = typeof req.query.from === "string" ? new Date(req.query.from) : undefined;
     const to = typeof req.query.to === "string" ? new Date(req.query.to) : undefined;
     const status = typeof req.query.status === "string" ? req.query.status : undefined;
+    const sessionId = typeof req.query.sessionId === "string" ? req.query.sessionId : undefined;
+    if (sessionId && !Types.ObjectId.isValid(sessionId)) return res.status(400).json({ error: "Invalid sessionId" });
 
     const q: any = { teacherId };
     if (status) q.status = status;
+    // Roster of a (group) session
+    if (sessionId) q.sessionId = sessionId;
     if (from || to) {
       q.bookedAt = {};
       if (from) q.bookedAt.$gte = from;
@@ -357,7 +536,7 @@ teacherRouter.get(
 
     const bookings = await BookingModel.find(q)
       .sort({ bookedAt: -1 })
-      .populate({ path: "sessionId", select: "startAt endAt meetingLink status" })
+      .populate({ path: "sessionId", select: "startAt endAt meetingLink status capacity seatsBooked" })
       .lean();
 
     const studentIds = Array.from(new Set(bookings.map((b: any) => String(b.studentUserId))));
@@ -393,6 +572,8 @@ teacherRouter.get(
             endAt: b.sessionId.endAt,
             meetingLink: b.sessionId.meetingLink || "",
             status: b.sessionId.status,
+            capacity: b.sessionId.capacity ?? 1,
+            seatsBooked: b.sessionId.seatsBooked ?? (b.sessionId.status === "booked" ? 1 : 0),
           }
         : null,
       calendarEventId: b.calendarEventId || "",
@@ -486,10 +667,31 @@ teacherRouter.post(
     if ((booking as any).status !== "booked") {
       return res.status(400).json({ error: "Only booked lessons can be marked complete" });
     }
-    await BookingModel.updateOne({ _id: id, teacherId }, { $set: { status: "completed" } });
-    await persistAndNotify([String((booking as any).studentUserId)], "lesson_completed", {
-      bookingId: id,
-    });
+    await completeBooking(id, "teacher");
+    return res.json({ ok: true, bookingId: id });
+  })
+);
+
+// Mark booking as a student no-show - teacher only
+teacherRouter.post(
+  "/bookings/:id/no-show",
+  asyncHandler(async (req, res) => {
+    const teacherId = await ensureTeacherProfileId(req.user!.id, req.user!.email);
+    if (!teacherId) return res.status(404).json({ error: "Teacher profile not found" });
+    const id = req.params.id;
+    if (!Types.ObjectId.isValid(id)) return res.status(400).json({ error: "Invalid booking id" });
+    const booking = await BookingModel.findOne({ _id: id, teacherId })
+      .populate({ path: "sessionId", select: "startAt" })
+      .lean();
+    if (!booking) return res.status(404).json({ error: "Booking not found" });
+    if ((booking as any).status !== "booked") {
+      return res.status(400).json({ error: "Only booked lessons can be marked as no-show" });
+    }
+    const startAt = (booking as any).sessionId?.startAt;
+    if (!startAt || new Date(startAt).getTime() > Date.now()) {
+      return res.status(400).json({ error: "Lesson has not started yet" });
+    }
+    await markBookingNoShow(id, "teacher");
     return res.json({ ok: true, bookingId: id });
   })
 );
@@ -666,7 +868,7 @@ teacherRouter.get(
       ClassSessionModel.countDocuments({
         teacherId: tid,
         startAt: { $gte: todayStart, $lte: todayEnd },
-        status: "booked",
+        ...SESSION_HAS_BOOKINGS,
       }),
       BookingModel.aggregate([
         { $match: { teacherId: tid, status: "completed" } },
@@ -698,7 +900,20 @@ teacherRouter.get(
           $group: {
             _id: { $dateToString: { format: "%Y-%m-%d", date: "$startAt" } },
             open: { $sum: { $cond: [{ $eq: ["$status", "open"] }, 1, 0] } },
-            booked: { $sum: { $cond: [{ $eq: ["$status", "booked"] }, 1, 0] } },
+            booked: {
+              $sum: {
+                $cond: [
+                  {
+                    $or: [
+                      { $in: ["$status", ["booked", "full"]] },
+                      { $and: [{ $eq: ["$status", "open"] }, { $gt: [{ $ifNull: ["$seatsBooked", 0] }, 0] }] },
+                    ],
+                  },
+                  1,
+                  0,
+                ],
+              },
+            },
           },
         },
         { $sort: { _id: 1 } },
@@ -725,7 +940,7 @@ teacherRouter.get(
     const sessionsTodayBooked = await ClassSessionModel.find({
       teacherId: tid,
       startAt: { $gte: todayStart, $lte: todayEnd },
-      status: "booked",
+      ...SESSION_HAS_BOOKINGS,
     })
       .select("_id")
       .lean();
@@ -820,7 +1035,85 @@ teacherRouter.get(
     const byStatus: any = {};
     for (const row of agg) byStatus[row._id] = { count: row.count, totalCredits: row.totalCredits };
 
-    return res.json({ byStatus });
+    // Earnings ledger (net of commission), split by payout state
+    const ledger = await TeacherEarningModel.aggregate([
+      { $match: { teacherId: new Types.ObjectId(teacherId) } },
+      { $lookup: { from: "teacherpayouts", localField: "payoutId", foreignField: "_id", as: "payout" } },
+      {
+        $group: {
+          _id: { $ifNull: [{ $first: "$payout.status" }, "unpaid"] },
+          netCredits: { $sum: "$netCredits" },
+        },
+      },
+    ]);
+    const net = (key: string) => Math.round(Number(ledger.find((r) => r._id === key)?.netCredits ?? 0) * 100) / 100;
+    const earnings = {
+      earnedTotal: Math.round(ledger.reduce((sum, r) => sum + Number(r.netCredits), 0) * 100) / 100,
+      unpaidCredits: net("unpaid"),
+      pendingPayoutCredits: net("pending"),
+      paidCredits: net("paid"),
+      commissionPercent: env.TEACHER_COMMISSION_PERCENT,
+    };
+
+    return res.json({ byStatus, earnings });
+  })
+);
+
+// Earnings ledger entries, newest first
+teacherRouter.get(
+  "/earnings",
+  asyncHandler(async (req, res) => {
+    const teacherId = await ensureTeacherProfileId(req.user!.id, req.user!.email);
+    if (!teacherId) return res.status(404).json({ error: "Teacher profile not found" });
+
+    const page = Math.max(1, parseInt(String(req.query.page || "1")));
+    const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit || "50"))));
+    const filter = { teacherId: new Types.ObjectId(teacherId) };
+    const [earnings, totalCount] = await Promise.all([
+      TeacherEarningModel.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+      TeacherEarningModel.countDocuments(filter),
+    ]);
+    return res.json({
+      earnings: (earnings as any[]).map(earningRow),
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+        hasNextPage: page < Math.ceil(totalCount / limit),
+        hasPrevPage: page > 1,
+      },
+    });
+  })
+);
+
+teacherRouter.get(
+  "/payouts",
+  asyncHandler(async (req, res) => {
+    const teacherId = await ensureTeacherProfileId(req.user!.id, req.user!.email);
+    if (!teacherId) return res.status(404).json({ error: "Teacher profile not found" });
+
+    const payouts = await TeacherPayoutModel.find({ teacherId }).sort({ createdAt: -1 }).limit(100).lean();
+    return res.json({ payouts: (payouts as any[]).map(payoutRow) });
+  })
+);
+
+// Monthly statement (month = YYYY-MM in the teacher's timezone); ?format=csv downloads it
+teacherRouter.get(
+  "/statements/:month",
+  asyncHandler(async (req, res) => {
+    const teacherId = await ensureTeacherProfileId(req.user!.id, req.user!.email);
+    if (!teacherId) return res.status(404).json({ error: "Teacher profile not found" });
+
+    const statement = await buildStatement(new Types.ObjectId(teacherId), req.params.month);
+    if (!statement) return res.status(400).json({ error: "Invalid month (expected YYYY-MM)" });
+
+    if (req.query.format === "csv") {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="statement-${statement.month}.csv"`);
+      return res.send(statementCsv(statement));
+    }
+    return res.json({ statement });
   })
 );
 
@@ -838,17 +1131,11 @@ teacherRouter.post(
     if (!teacherIdStr) return res.status(404).json({ error: "Teacher profile not found" });
     const teacherId = new Types.ObjectId(teacherIdStr);
 
-    const user = await UserModel.findById(req.user!.id).select("integrations.googleCalendar").lean();
-    const gc = (user as any)?.integrations?.googleCalendar;
-    if (!gc?.connected || !gc?.refreshTokenEncrypted) {
+    const gc = await calendarForUser(req.user!.id);
+    if (!gc.ok) {
       return res.status(400).json({ error: "Google Calendar is not connected." });
     }
-
-    const refreshToken = decryptString(gc.refreshTokenEncrypted);
-    const oauth2 = new google.auth.OAuth2(env.GOOGLE_CLIENT_ID, env.GOOGLE_CLIENT_SECRET, env.GOOGLE_REDIRECT_URI);
-    oauth2.setCredentials({ refresh_token: refreshToken });
-    const calendar = google.calendar({ version: "v3", auth: oauth2 });
-    const calendarId = gc.calendarId || "primary";
+    const { calendar, calendarId } = gc;
 
     const now = new Date();
     const bookings = await BookingModel.find({
@@ -861,12 +1148,26 @@ teacherRouter.post(
       .limit(50)
       .lean();
 
+    // Group sessions get a single event shared by all of their bookings.
+    const eventBySession = new Map<string, string>();
+    const sessionIds = (bookings as any[]).map((b) => b.sessionId?._id).filter(Boolean);
+    const synced = await BookingModel.find({ sessionId: { $in: sessionIds }, status: "booked", calendarEventId: { $ne: "" } })
+      .select("sessionId calendarEventId")
+      .lean();
+    for (const b of synced as any[]) eventBySession.set(String(b.sessionId), b.calendarEventId);
+
     let created = 0;
     for (const b of bookings as any[]) {
       const s = b.sessionId;
       if (!s?.startAt || !s?.endAt) continue;
       if (new Date(s.endAt).getTime() < now.getTime()) continue;
 
+      const existing = eventBySession.get(String(s._id));
+      if (existing) {
+        await BookingModel.updateOne({ _id: b._id }, { $set: { calendarEventId: existing } });
+        continue;
+      }
+
       const event = await calendar.events.insert({
         calendarId,
         requestBody: {
@@ -880,6 +1181,7 @@ teacherRouter.post(
       const eventId = event.data.id || "";
       if (eventId) {
         await BookingModel.updateOne({ _id: b._id }, { $set: { calendarEventId: eventId } });
+        eventBySession.set(String(s._id), eventId);
         created += 1;
       }
     }
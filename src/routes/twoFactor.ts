@@ -0,0 +1,189 @@
+import { Router, type Request, type Response } from "express";
+import bcrypt from "bcrypt";
+import { z } from "zod";
+import { verifyAuthToken } from "../middleware/auth";
+import { byIp, rateLimit, tooManyRequests } from "../middleware/rateLimit";
+import { clearLoginFailures, loginLockedForSeconds, recordLoginFailure } from "../services/rateLimiter";
+import { UserModel } from "../models/User";
+import { sessionMeta, startAuthSession } from "../services/authSessions";
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  regenerateBackupCodes,
+  twoFactorRequired,
+  verifySecondFactor,
+  verifyTwoFactorChallenge,
+} from "../services/twoFactor";
+import { asyncHandler } from "../utils/asyncHandler";
+
+export const twoFactorRouter = Router();
+
+function userRow(user: any) {
+  return { id: String(user._id), role: user.role, email: user.email };
+}
+
+/**
+ * Who is managing 2FA: a signed-in user (Bearer token), or an admin in the middle of a login
+ * that requires enrollment (`challengeToken` from POST /auth/login).
+ */
+async function enrollingUser(req: Request): Promise<{ user: any; viaChallenge: boolean } | null> {
+  const challengeToken = typeof req.body?.challengeToken === "string" ? req.body.challengeToken : "";
+  if (challengeToken) {
+    const user = await verifyTwoFactorChallenge(challengeToken, "setup");
+    return user ? { user, viaChallenge: true } : null;
+  }
+  const m = /^Bearer\s+(.+)$/.exec(req.header("authorization") || "");
+  const auth = m ? await verifyAuthToken(m[1]) : null;
+  if (!auth) return null;
+  const user = await UserModel.findById(auth.id);
+  return user ? { user, viaChallenge: false } : null;
+}
+
+function encryptionMissing(e: any): boolean {
+  return String(e?.message || "").includes("TOKEN_ENCRYPTION_KEY is not set");
+}
+
+const SecondFactorSchema = z
+  .object({
+    code: z.string().regex(/^\d{6}$/).optional(),
+    backupCode: z.string().trim().min(1).max(20).optional(),
+  })
+  .refine((d) => !!d.code !== !!d.backupCode, { message: "Provide either code or backupCode" });
+
+const VerifySchema = z.intersection(z.object({ challengeToken: z.string().min(1) }), SecondFactorSchema);
+
+// Every endpoint that checks a code is limited per IP, and wrong codes count towards the login lockout
+// of the account (like wrong passwords), so codes cannot be brute-forced with a stolen token either.
+function perIp(name: string) {
+  return rateLimit({ rule: { name: `2fa-${name}-ip`, max: 30, windowSeconds: 15 * 60 }, by: byIp });
+}
+
+const LOCKED_OUT = "Too many failed sign-in attempts. Please try again later.";
+
+async function refuseIfLocked(res: Response, email: string) {
+  const lockedFor = await loginLockedForSeconds(email);
+  return lockedFor ? tooManyRequests(res, lockedFor, LOCKED_OUT) : null;
+}
+
+async function rejectAttempt(res: Response, email: string, status: number, error: string) {
+  const lockout = await recordLoginFailure(email);
+  if (lockout) return tooManyRequests(res, lockout, LOCKED_OUT);
+  return res.status(status).json({ error });
+}
+
+// Second login step: exchange the challenge token from POST /auth/login and a code for a session.
+twoFactorRouter.post("/verify", perIp("verify"), asyncHandler(async (req, res) => {
+  const parsed = VerifySchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+
+  const user = await verifyTwoFactorChallenge(parsed.data.challengeToken, "login");
+  if (!user) return res.status(401).json({ error: "Login expired. Please sign in again." });
+
+  const locked = await refuseIfLocked(res, user.email);
+  if (locked) return locked;
+  const method = await verifySecondFactor(user._id, parsed.data);
+  if (!method) return rejectAttempt(res, user.email, 401, "Invalid code");
+  await clearLoginFailures(user.email);
+
+  user.lastLoginAt = new Date();
+  await user.save();
+  const tokens = await startAuthSession(user, sessionMeta(req));
+  return res.json({ ...tokens, user: userRow(user), ...(method === "backup_code" ? { usedBackupCode: true } : {}) });
+}));
+
+// 2FA status of the signed-in user
+twoFactorRouter.get("/", asyncHandler(async (req, res) => {
+  const found = await enrollingUser(req);
+  if (!found || found.viaChallenge) return res.status(401).json({ error: "Invalid token" });
+  const tf = found.user.twoFactor ?? {};
+  return res.json({
+    enabled: !!tf.enabled,
+    required: twoFactorRequired(found.user.role),
+    backupCodesRemaining: tf.enabled ? (tf.backupCodeHashes ?? []).length : 0,
+    enabledAt: tf.enabledAt ?? null,
+  });
+}));
+
+// Start enrollment: returns the secret and an otpauth:// URI to show as a QR code.
+twoFactorRouter.post("/enroll", asyncHandler(async (req, res) => {
+  const found = await enrollingUser(req);
+  if (!found) return res.status(401).json({ error: "Invalid token" });
+  if (found.user.twoFactor?.enabled) {
+    return res.status(409).json({ error: "Two-factor authentication is already enabled" });
+  }
+
+  try {
+    return res.json(await beginTwoFactorEnrollment(found.user));
+  } catch (e) {
+    if (encryptionMissing(e)) return res.status(503).json({ error: "Two-factor authentication is not configured" });
+    throw e;
+  }
+}));
+
+const ConfirmSchema = z.object({
+  code: z.string().regex(/^\d{6}$/),
+  challengeToken: z.string().min(1).optional(),
+});
+
+// Finish enrollment with a code from the app. Backup codes are returned once. During a login that
+// required enrollment this also opens the session.
+twoFactorRouter.post("/confirm", perIp("confirm"), asyncHandler(async (req, res) => {
+  const parsed = ConfirmSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+
+  const found = await enrollingUser(req);
+  if (!found) return res.status(401).json({ error: "Invalid token" });
+  const locked = await refuseIfLocked(res, found.user.email);
+  if (locked) return locked;
+  const backupCodes = await confirmTwoFactorEnrollment(found.user._id, parsed.data.code);
+  if (!backupCodes) return rejectAttempt(res, found.user.email, 400, "Invalid code");
+  await clearLoginFailures(found.user.email);
+
+  if (!found.viaChallenge) return res.json({ ok: true, backupCodes });
+  found.user.lastLoginAt = new Date();
+  await found.user.save();
+  const tokens = await startAuthSession(found.user, sessionMeta(req));
+  return res.json({ ok: true, backupCodes, ...tokens, user: userRow(found.user) });
+}));
+
+const DisableSchema = z.intersection(z.object({ password: z.string().min(1) }), SecondFactorSchema);
+
+// Turn 2FA off (password + a current code or backup code). Admins are asked to enroll again at next login.
+twoFactorRouter.post("/disable", perIp("disable"), asyncHandler(async (req, res) => {
+  const parsed = DisableSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+
+  const found = await enrollingUser(req);
+  if (!found || found.viaChallenge) return res.status(401).json({ error: "Invalid token" });
+  if (!found.user.twoFactor?.enabled) return res.status(409).json({ error: "Two-factor authentication is not enabled" });
+  const { email } = found.user;
+  const locked = await refuseIfLocked(res, email);
+  if (locked) return locked;
+  if (!(await bcrypt.compare(parsed.data.password, found.user.passwordHash))) {
+    return rejectAttempt(res, email, 401, "Invalid credentials");
+  }
+  if (!(await verifySecondFactor(found.user._id, parsed.data))) return rejectAttempt(res, email, 401, "Invalid code");
+  await clearLoginFailures(email);
+
+  await disableTwoFactor(found.user._id);
+  return res.json({ ok: true });
+}));
+
+const BackupCodesSchema = z.object({ code: z.string().regex(/^\d{6}$/) });
+
+// New set of backup codes (confirmed with a current code); the old ones stop working.
+twoFactorRouter.post("/backup-codes", perIp("backup-codes"), asyncHandler(async (req, res) => {
+  const parsed = BackupCodesSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+
+  const found = await enrollingUser(req);
+  if (!found || found.viaChallenge) return res.status(401).json({ error: "Invalid token" });
+  const locked = await refuseIfLocked(res, found.user.email);
+  if (locked) return locked;
+  if (!(await verifySecondFactor(found.user._id, parsed.data))) {
+    return rejectAttempt(res, found.user.email, 401, "Invalid code");
+  }
+  await clearLoginFailures(found.user.email);
+  return res.json({ backupCodes: await regenerateBackupCodes(found.user._id) });
+}));
@@ -0,0 +1,143 @@
+import { Router } from "express";
+import { Types } from "mongoose";
+import { z } from "zod";
+
+import { requireAuth, requireRole } from "../middleware/auth";
+import { BookingModel } from "../models/Booking";
+import { ClassSessionModel } from "../models/ClassSession";
+import { TeacherProfileModel } from "../models/TeacherProfile";
+import { WaitlistEntryModel } from "../models/WaitlistEntry";
+import { offerNextInLine, releaseWaitlistHold } from "../services/waitlist";
+import { asyncHandler } from "../utils/asyncHandler";
+
+export const waitlistRouter = Router();
+
+waitlistRouter.use(requireAuth, requireRole("student"));
+
+const MAX_RANGE_DAYS = 60;
+
+const JoinSchema = z.union([
+  z.object({ sessionId: z.string().min(1) }),
+  z.object({ teacherId: z.string().min(1), from: z.string().datetime(), to: z.string().datetime() }),
+]);
+
+function toRow(e: any, position: number | null) {
+  return {
+    id: String(e._id),
+    teacherId: String(e.teacherId),
+    sessionId: e.sessionId ? String(e.sessionId) : null,
+    from: e.from,
+    to: e.to,
+    status: e.status,
+    position,
+    offer: e.offer
+      ? { sessionId: String(e.offer.sessionId), offeredAt: e.offer.offeredAt, expiresAt: e.offer.expiresAt }
+      : null,
+    createdAt: e.createdAt,
+  };
+}
+
+// Place in line among students waiting for the same session (range entries have no fixed position).
+async function positionOf(e: any): Promise<number | null> {
+  if (!e.sessionId || e.status !== "waiting") return null;
+  const ahead = await WaitlistEntryModel.countDocuments({
+    sessionId: e.sessionId,
+    status: "waiting",
+    createdAt: { $lt: e.createdAt },
+  });
+  return ahead + 1;
+}
+
+// Join the waitlist for one fully booked session, or for any session of a teacher within a time range.
+waitlistRouter.post(
+  "/",
+  asyncHandler(async (req, res) => {
+    const parsed = JoinSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+
+    const studentUserId = new Types.ObjectId(req.user!.id);
+    const now = new Date();
+    let doc: { teacherId: Types.ObjectId; sessionId: Types.ObjectId | null; from: Date; to: Date };
+
+    if ("sessionId" in parsed.data) {
+      if (!Types.ObjectId.isValid(parsed.data.sessionId)) return res.status(400).json({ error: "Invalid sessionId" });
+      const sessionId = new Types.ObjectId(parsed.data.sessionId);
+      const session = (await ClassSessionModel.findById(sessionId)
+        .select("teacherId startAt endAt status capacity seatsBooked hold")
+        .lean()) as any | null;
+      if (!session || session.status === "cancelled" || new Date(session.startAt).getTime() <= now.getTime()) {
+        return res.status(409).json({ error: "Session is not available" });
+      }
+      if (await BookingModel.exists({ sessionId, studentUserId, status: "booked" })) {
+        return res.status(409).json({ error: "You already booked this session" });
+      }
+
+      const seatsBooked = Number(session.seatsBooked ?? (session.status === "booked" ? 1 : 0));
+      const freeSeats = Number(session.capacity ?? 1) - seatsBooked;
+      const holdActive = session.hold && new Date(session.hold.expiresAt).getTime() > now.getTime();
+      const heldForOther = holdActive && String(session.hold.studentUserId) !== String(studentUserId);
+      if (session.status === "open" && freeSeats > 0 && !(heldForOther && freeSeats === 1)) {
+        return res.status(409).json({ error: "Session has free seats; book it directly" });
+      }
+      doc = { teacherId: session.teacherId, sessionId, from: session.startAt, to: session.endAt };
+    } else {
+      const { teacherId, from, to } = parsed.data;
+      if (!Types.ObjectId.isValid(teacherId)) return res.status(400).json({ error: "Invalid teacherId" });
+      const fromDate = new Date(from);
+      const toDate = new Date(to);
+      if (toDate <= fromDate || toDate <= now) return res.status(400).json({ error: "Invalid time range" });
+      if (toDate.getTime() - fromDate.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ error: `Time range cannot exceed ${MAX_RANGE_DAYS} days` });
+      }
+      if (!(await TeacherProfileModel.exists({ _id: teacherId }))) {
+        return res.status(404).json({ error: "Teacher not found" });
+      }
+      doc = { teacherId: new Types.ObjectId(teacherId), sessionId: null, from: fromDate, to: toDate };
+    }
+
+    const duplicate = await WaitlistEntryModel.exists({
+      studentUserId,
+      teacherId: doc.teacherId,
+      sessionId: doc.sessionId,
+      status: { $in: ["waiting", "offered"] },
+      ...(doc.sessionId ? {} : { from: doc.from, to: doc.to }),
+    });
+    if (duplicate) return res.status(409).json({ error: "You are already on this waitlist" });
+
+    const entry = await WaitlistEntryModel.create({ ...doc, studentUserId, status: "waiting" });
+    return res.status(201).json({ entry: toRow(entry.toObject(), await positionOf(entry)) });
+  })
+);
+
+// My active waitlist entries (add ?all=true to include closed ones)
+waitlistRouter.get(
+  "/",
+  asyncHandler(async (req, res) => {
+    const q: any = { studentUserId: new Types.ObjectId(req.user!.id) };
+    if (req.query.all !== "true") q.status = { $in: ["waiting", "offered"] };
+    const entries = await WaitlistEntryModel.find(q).sort({ createdAt: -1 }).limit(100).lean();
+    const rows = [];
+    for (const e of entries as any[]) rows.push(toRow(e, await positionOf(e)));
+    return res.json({ entries: rows });
+  })
+);
+
+// Leave the waitlist. An unused offer is passed on to the next student in line.
+waitlistRouter.delete(
+  "/:id",
+  asyncHandler(async (req, res) => {
+    const id = req.params.id;
+    if (!Types.ObjectId.isValid(id)) return res.status(400).json({ error: "Invalid id" });
+
+    const entry = (await WaitlistEntryModel.findOneAndUpdate(
+      { _id: id, studentUserId: req.user!.id, status: { $in: ["waiting", "offered"] } },
+      { $set: { status: "cancelled" } }
+    ).lean()) as any | null;
+    if (!entry) return res.status(404).json({ error: "Waitlist entry not found" });
+
+    if (entry.status === "offered" && entry.offer?.sessionId) {
+      if (await releaseWaitlistHold(entry.offer.sessionId, entry._id)) await offerNextInLine(entry.offer.sessionId);
+    }
+    return res.json({ ok: true });
+  })
+);
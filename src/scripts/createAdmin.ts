@@ -0,0 +1,59 @@
+/**
+ * Bootstrap: create the first admin on a database that has none (later admins are invited through
+ * POST /admin/invites). The admin sets up 2FA at first sign-in.
+ * Usage: ADMIN_PASSWORD=... npm run admin:create -- --email admin@example.com   (or --password ...)
+ */
+import mongoose from "mongoose";
+import { z } from "zod";
+import { connectDb } from "../config/db";
+import { UserModel } from "../models/User";
+import { createAdminUser } from "../services/adminInvites";
+
+function arg(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i === -1 ? undefined : process.argv[i + 1];
+}
+
+const ArgsSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(6),
+});
+
+async function main() {
+  const parsed = ArgsSchema.safeParse({ email: arg("email"), password: arg("password") ?? process.env.ADMIN_PASSWORD });
+  if (!parsed.success) {
+    // eslint-disable-next-line no-console
+    console.error("Usage: ADMIN_PASSWORD=... npm run admin:create -- --email <email> (password: at least 6 characters)");
+    process.exitCode = 1;
+    return;
+  }
+  const email = parsed.data.email.trim().toLowerCase();
+  await connectDb();
+
+  try {
+    if (await UserModel.exists({ role: "admin" })) {
+      // eslint-disable-next-line no-console
+      console.error("An admin already exists; invite new admins with POST /admin/invites.");
+      process.exitCode = 1;
+      return;
+    }
+    if (await UserModel.exists({ email })) {
+      // eslint-disable-next-line no-console
+      console.error(`${email} already has an account.`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const user = await createAdminUser(email, parsed.data.password);
+    // eslint-disable-next-line no-console
+    console.log(`created admin ${email} (id=${user._id})`);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,66 @@
+/**
+ * One-off: move credits that older admin grants stored on student profiles (`studentprofiles.credits`,
+ * never part of the schema and never spendable) into the ledger as `admin_adjust` entries, then drop the field.
+ * Safe to re-run. Usage: npm run credits:migrate-profiles [-- --dry-run]
+ */
+import mongoose from "mongoose";
+import { connectDb } from "../config/db";
+import { StudentProfileModel } from "../models/StudentProfile";
+import { postCreditTransaction } from "../services/credits";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  await connectDb();
+
+  // The field is not in the schema, so read the raw collection.
+  const profiles = StudentProfileModel.collection.find(
+    { credits: { $exists: true } },
+    { projection: { _id: 1, userId: 1, credits: 1 } }
+  );
+
+  let migrated = 0;
+  let skipped = 0;
+  for await (const p of profiles) {
+    const credits = Math.trunc(Number(p.credits) || 0);
+    if (credits < 0) {
+      skipped++;
+      // eslint-disable-next-line no-console
+      console.log(`skip profile=${p._id} user=${p.userId} credits=${p.credits} (negative; fix by hand)`);
+      continue;
+    }
+    // eslint-disable-next-line no-console
+    console.log(`${dryRun ? "would migrate" : "migrate"} user=${p.userId} credits=${credits}`);
+    migrated++;
+    if (dryRun) continue;
+
+    const mongoSession = await mongoose.startSession();
+    try {
+      await mongoSession.withTransaction(async () => {
+        if (credits > 0) {
+          await postCreditTransaction(
+            {
+              userId: p.userId,
+              type: "admin_adjust",
+              amount: credits,
+              meta: { method: "profile_migration", reason: "Credits moved from the student profile" },
+            },
+            mongoSession
+          );
+        }
+        await StudentProfileModel.collection.updateOne({ _id: p._id }, { $unset: { credits: "" } }, { session: mongoSession });
+      });
+    } finally {
+      mongoSession.endSession();
+    }
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(`${dryRun ? "dry run: " : ""}${migrated} profiles migrated, ${skipped} skipped`);
+  await mongoose.disconnect();
+}
+
+main().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
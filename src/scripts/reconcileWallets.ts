@@ -0,0 +1,55 @@
+/**
+ * Recompute every wallet from the credit ledger and report drift.
+ * Usage: npm run wallets:reconcile [-- --fix]   (--fix overwrites drifted wallets with the ledger sum)
+ */
+import mongoose from "mongoose";
+import { connectDb } from "../config/db";
+import { CreditTransactionModel } from "../models/CreditTransaction";
+import { WalletModel } from "../models/Wallet";
+
+async function main() {
+  const fix = process.argv.includes("--fix");
+  await connectDb();
+
+  const ledger = new Map<string, number>();
+  const sums = CreditTransactionModel.aggregate([{ $group: { _id: "$userId", balance: { $sum: "$amount" } } }]).cursor();
+  for await (const row of sums) ledger.set(String(row._id), Number(row.balance));
+
+  const wallets = new Map<string, number>();
+  for await (const w of WalletModel.find({}).select("userId balance").lean().cursor()) {
+    wallets.set(String(w.userId), Number(w.balance));
+  }
+
+  let checked = 0;
+  let drifted = 0;
+  for (const [userId, walletBalance] of wallets) {
+    checked++;
+    const expected = ledger.get(userId) ?? 0;
+    if (walletBalance === expected) continue;
+    drifted++;
+    // eslint-disable-next-line no-console
+    console.log(`drift user=${userId} wallet=${walletBalance} ledger=${expected} diff=${walletBalance - expected}`);
+    if (fix) await WalletModel.updateOne({ userId }, { $set: { balance: expected } });
+  }
+  const withoutWallet = [...ledger.keys()].filter((id) => !wallets.has(id)).length;
+  const negative = [...ledger.entries()].filter(([, balance]) => balance < 0);
+  for (const [userId, balance] of negative) {
+    // eslint-disable-next-line no-console
+    console.log(`negative ledger user=${userId} balance=${balance} (fix with an admin credit adjustment)`);
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(
+    `checked ${checked} wallets, ${drifted} drifted${fix && drifted ? " (fixed)" : ""}; ` +
+      `${withoutWallet} users with ledger entries have no wallet yet (created on their next credit movement); ` +
+      `${negative.length} negative ledger balances`
+  );
+  await mongoose.disconnect();
+  if (drifted && !fix) process.exitCode = 1;
+}
+
+main().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
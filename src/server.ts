@@ -6,6 +6,7 @@ import http from "http";
 import { env } from "./config/env";
 import { createApp } from "./app";
 import { attachWsToServer } from "./ws/server";
+import { startJobs } from "./jobs";
 
 async function main() {
   const app = await createApp();
@@ -16,6 +17,7 @@ async function main() {
     // eslint-disable-next-line no-console
     console.log(`Backend listening on http://localhost:${env.PORT}`);
   });
+  startJobs();
 }
 
 main().catch((err) => {
@@ -0,0 +1,108 @@
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import mongoose, { Types, type ClientSession } from "mongoose";
+import { env } from "../config/env";
+import { AdminInviteModel } from "../models/AdminInvite";
+import { UserModel } from "../models/User";
+
+const INVITE_KIND = "admin_invite";
+
+export type AdminInviteResult<T> = { ok: true; value: T } | { ok: false; status: number; error: string };
+
+export function adminInviteRow(invite: any, now = new Date()) {
+  const expired = invite.status === "pending" && new Date(invite.expiresAt).getTime() <= now.getTime();
+  return {
+    id: String(invite._id),
+    email: invite.email,
+    status: expired ? "expired" : invite.status,
+    invitedByUserId: String(invite.invitedByUserId),
+    expiresAt: invite.expiresAt,
+    acceptedAt: invite.acceptedAt ?? null,
+    acceptedUserId: invite.acceptedUserId ? String(invite.acceptedUserId) : null,
+    revokedAt: invite.revokedAt ?? null,
+    createdAt: invite.createdAt,
+  };
+}
+
+/**
+ * The only way admin accounts are created (self-registration is limited to students and teachers):
+ * from an accepted invite, or by the bootstrap script on a database without admins.
+ */
+export async function createAdminUser(email: string, password: string, session?: ClientSession) {
+  const passwordHash = await bcrypt.hash(password, 10);
+  const [user] = await UserModel.create(
+    [{ role: "admin", email: email.trim().toLowerCase(), passwordHash, status: "active", verifiedEmail: true }],
+    { session }
+  );
+  return user;
+}
+
+/** Issue an invite for `email`. The token is returned once; only the invite itself is stored. */
+export async function createAdminInvite(input: { email: string; invitedByUserId: Types.ObjectId | string }) {
+  const expiresAt = new Date(Date.now() + env.ADMIN_INVITE_TTL_HOURS * 60 * 60 * 1000);
+  const invite = await AdminInviteModel.create({
+    email: input.email.trim().toLowerCase(),
+    invitedByUserId: input.invitedByUserId,
+    expiresAt,
+  });
+  const token = jwt.sign({ sub: String(invite._id), kind: INVITE_KIND, email: invite.email }, env.JWT_SECRET, {
+    expiresIn: Math.ceil(env.ADMIN_INVITE_TTL_HOURS * 60 * 60),
+  });
+  return { invite, token };
+}
+
+/** The pending, unexpired invite a token was issued for, or null. */
+export async function findAdminInvite(token: string, session?: ClientSession) {
+  let decoded: any;
+  try {
+    decoded = jwt.verify(token, env.JWT_SECRET);
+  } catch {
+    return null;
+  }
+  if (decoded?.kind !== INVITE_KIND || !decoded?.sub || !Types.ObjectId.isValid(String(decoded.sub))) return null;
+  return AdminInviteModel.findOne({
+    _id: String(decoded.sub),
+    email: String(decoded.email ?? ""),
+    status: "pending",
+    expiresAt: { $gt: new Date() },
+  }).session(session ?? null);
+}
+
+/**
+ * Create the invited admin account. The invite is claimed in the same transaction, so it can only be
+ * used once. An email that already has an account is refused (promote it through PATCH /admin/users/:id).
+ */
+export async function acceptAdminInvite(token: string, password: string): Promise<AdminInviteResult<any>> {
+  const invalid: AdminInviteResult<any> = { ok: false, status: 400, error: "Invalid or expired invite" };
+  const emailTaken: AdminInviteResult<any> = { ok: false, status: 409, error: "Email already exists" };
+  let result: AdminInviteResult<any> = invalid;
+  const mongoSession = await mongoose.startSession();
+  try {
+    await mongoSession.withTransaction(async () => {
+      result = invalid;
+      const invite = await findAdminInvite(token, mongoSession);
+      if (!invite) return;
+      if (await UserModel.exists({ email: invite.email }).session(mongoSession)) {
+        result = emailTaken;
+        return;
+      }
+
+      const claimed = await AdminInviteModel.findOneAndUpdate(
+        { _id: invite._id, status: "pending" },
+        { $set: { status: "accepted", acceptedAt: new Date() } },
+        { new: true, session: mongoSession }
+      );
+      if (!claimed) return;
+      const user = await createAdminUser(invite.email, password, mongoSession);
+      claimed.acceptedUserId = user._id;
+      await claimed.save({ session: mongoSession });
+      result = { ok: true, value: user };
+    });
+  } catch (e: any) {
+    if (e?.code === 11000) return emailTaken;
+    throw e;
+  } finally {
+    mongoSession.endSession();
+  }
+  return result;
+}
@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+import { env } from "../config/env";
+import { signAuthToken } from "../middleware/auth";
+import { AuthSessionModel } from "../models/AuthSession";
+import { UserModel } from "../models/User";
+
+export type SessionRevokeReason = "logout" | "revoked" | "revoke_all" | "token_reuse" | "password_reset" | "status_change";
+
+export type AuthTokens = {
+  // Access token (JWT) for the Authorization header
+  token: string;
+  refreshToken: string;
+  // Access token lifetime in seconds
+  expiresIn: number;
+};
+
+export type SessionMeta = { userAgent?: string; ip?: string };
+
+// Rotated-out refresh tokens remembered per session for reuse detection
+const MAX_PREVIOUS_HASHES = 20;
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function newRefreshToken(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+function refreshExpiry(now: Date): Date {
+  return new Date(now.getTime() + env.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/** Request metadata recorded on a session. */
+export function sessionMeta(req: { ip?: string; header(name: string): string | undefined }): SessionMeta {
+  return { userAgent: String(req.header("user-agent") || "").slice(0, 300), ip: req.ip ?? "" };
+}
+
+/** API shape of a session. */
+export function sessionRow(s: any, currentSessionId?: string) {
+  return {
+    id: String(s._id),
+    userAgent: s.userAgent || "",
+    ip: s.ip || "",
+    lastIp: s.lastIp || s.ip || "",
+    createdAt: s.createdAt,
+    lastUsedAt: s.lastUsedAt ?? s.createdAt,
+    expiresAt: s.expiresAt,
+    current: !!currentSessionId && String(s._id) === currentSessionId,
+  };
+}
+
+/** Sign a user in on a new device: creates the session and returns its first token pair. */
+export async function startAuthSession(
+  user: { _id: unknown; role: string; email: string; tokenVersion?: number | null },
+  meta: SessionMeta
+): Promise<AuthTokens> {
+  const now = new Date();
+  const refreshToken = newRefreshToken();
+  const session = await AuthSessionModel.create({
+    userId: user._id,
+    refreshTokenHash: hashToken(refreshToken),
+    userAgent: meta.userAgent ?? "",
+    ip: meta.ip ?? "",
+    lastIp: meta.ip ?? "",
+    lastUsedAt: now,
+    expiresAt: refreshExpiry(now),
+  });
+  return {
+    token: signAuthToken(user, String(session._id)),
+    refreshToken,
+    expiresIn: env.ACCESS_TOKEN_TTL_MINUTES * 60,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new token pair (the old refresh token stops working).
+ * Presenting a token that was already rotated out revokes its session: either the client
+ * or an attacker holds a stolen copy. Returns null for any token that cannot be used.
+ */
+export async function refreshAuthSession(refreshToken: string, meta: SessionMeta): Promise<AuthTokens | null> {
+  const hash = hashToken(refreshToken);
+  const now = new Date();
+  const next = newRefreshToken();
+
+  const session = await AuthSessionModel.findOneAndUpdate(
+    { refreshTokenHash: hash, revokedAt: null, expiresAt: { $gt: now } },
+    {
+      $set: { refreshTokenHash: hashToken(next), lastUsedAt: now, lastIp: meta.ip ?? "", expiresAt: refreshExpiry(now) },
+      $push: { previousTokenHashes: { $each: [hash], $slice: -MAX_PREVIOUS_HASHES } },
+    },
+    { new: true }
+  );
+  if (!session) {
+    const reused = await AuthSessionModel.findOneAndUpdate(
+      { previousTokenHashes: hash, revokedAt: null },
+      { $set: { revokedAt: now, revokedReason: "token_reuse" } }
+    ).lean();
+    if (reused) {
+      // eslint-disable-next-line no-console
+      console.warn("[auth] refresh token reuse; session revoked", {
+        sessionId: String((reused as any)._id),
+        userId: String((reused as any).userId),
+        ip: meta.ip,
+      });
+    }
+    return null;
+  }
+
+  const user = (await UserModel.findById(session.userId).select("role email status tokenVersion").lean()) as any | null;
+  if (!user || user.status !== "active") {
+    await revokeAuthSession(session._id, session.userId, "status_change");
+    return null;
+  }
+  return {
+    token: signAuthToken(user, String(session._id)),
+    refreshToken: next,
+    expiresIn: env.ACCESS_TOKEN_TTL_MINUTES * 60,
+  };
+}
+
+/** Revoke one of a user's sessions. Returns false if it was not found or already revoked. */
+export async function revokeAuthSession(
+  sessionId: string | Types.ObjectId,
+  userId: string | Types.ObjectId,
+  reason: SessionRevokeReason
+): Promise<boolean> {
+  const res = await AuthSessionModel.updateOne(
+    { _id: sessionId, userId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return res.modifiedCount === 1;
+}
+
+/** Revoke the session a refresh token belongs to (logout without a valid access token). */
+export async function revokeByRefreshToken(refreshToken: string, reason: SessionRevokeReason): Promise<boolean> {
+  const res = await AuthSessionModel.updateOne(
+    { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return res.modifiedCount === 1;
+}
+
+/** Revoke every open session of a user (optionally keeping one). Their access tokens stop working right away. */
+export async function revokeAllAuthSessions(
+  userId: string | Types.ObjectId,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const filter: Record<string, unknown> = { userId, revokedAt: null };
+  if (exceptSessionId) filter._id = { $ne: new Types.ObjectId(exceptSessionId) };
+  const res = await AuthSessionModel.updateMany(filter, { $set: { revokedAt: new Date(), revokedReason: reason } });
+  return res.modifiedCount;
+}
@@ -0,0 +1,111 @@
+import type { Request } from "express";
+import { Types } from "mongoose";
+import { env } from "../config/env";
+import { BbbClient } from "../bbb/client";
+import { deriveMeetingPasswords } from "../bbb/meetingPasswords";
+import { ClassSessionModel } from "../models/ClassSession";
+import { TeacherProfileModel } from "../models/TeacherProfile";
+
+export function normalizeBbbBaseUrl(raw: string): string {
+  let base = raw.trim().replace(/\/+$/, "");
+  if (base.toLowerCase().endsWith("/api")) base = base.slice(0, -4);
+  return base;
+}
+
+export function publicBackendBaseUrl(req: Request): string {
+  const fromEnv = (env.PUBLIC_BACKEND_URL || "").trim().replace(/\/+$/, "");
+  if (fromEnv) return fromEnv;
+  const proto = (req.headers["x-forwarded-proto"] || req.protocol || "http") as string;
+  const host = (req.headers["x-forwarded-host"] || req.get("host") || "") as string;
+  return `${proto}://${host}`.replace(/\/+$/, "");
+}
+
+function bbbClientAndSalt(): { bbb: BbbClient; salt: string } | null {
+  const bbbBaseUrl = env.BBB_BASE_URL ? normalizeBbbBaseUrl(env.BBB_BASE_URL) : "";
+  const secret = (env.BBB_SHARED_SECRET || "").trim();
+  if (!bbbBaseUrl || !secret) return null;
+  const salt = (env.MEETING_PASSWORD_SALT || "").trim() || secret;
+  return { bbb: new BbbClient(bbbBaseUrl, secret), salt };
+}
+
+function isBbbIdNotUniqueError(err: any): boolean {
+  const msg = String(err?.message || "");
+  // BBB typically returns messageKey "idNotUnique" when meetingID already exists.
+  return msg.includes("idNotUnique") || msg.toLowerCase().includes("not unique");
+}
+
+/** True if the meeting link is this backend's BBB join endpoint (so joins are tracked). */
+export function isBbbJoinLink(meetingLink?: string | null): boolean {
+  return /\/bbb\/sessions\/[^/]+\/join$/.test(String(meetingLink || ""));
+}
+
+export type EnsureMeetingResult = { created: boolean; joinLink: string } | { created: false; reason: string };
+
+/**
+ * Create the BBB meeting for a class session (meetingID = session id) and store the backend join link
+ * on the session. The link works for both student and teacher because the backend picks the BBB password.
+ * If the meeting already exists, that counts as success.
+ */
+export async function ensureSessionMeeting(req: Request, sessionIdStr: string): Promise<EnsureMeetingResult> {
+  const client = bbbClientAndSalt();
+  if (!client) return { created: false, reason: "bbb_not_configured" };
+
+  const session = (await ClassSessionModel.findById(sessionIdStr).select("startAt endAt teacherId").lean()) as any | null;
+  if (!session) return { created: false, reason: "session_not_found" };
+
+  const meetingId = sessionIdStr;
+  const { moderatorPW, attendeePW } = deriveMeetingPasswords({ meetingId, salt: client.salt });
+
+  const teacherProfile = (await TeacherProfileModel.findById(session.teacherId).select("name").lean()) as any | null;
+  const teacherName = String(teacherProfile?.name || "Teacher");
+  const meetingName = `Class with ${teacherName}`.slice(0, 120);
+
+  const startMs = new Date(session.startAt).getTime();
+  const endMs = new Date(session.endAt).getTime();
+  const durationMinutes = Number.isFinite(startMs) && Number.isFinite(endMs) && endMs > startMs
+    ? Math.max(1, Math.round((endMs - startMs) / 60000))
+    : undefined;
+
+  const joinLink = `${publicBackendBaseUrl(req)}/bbb/sessions/${encodeURIComponent(sessionIdStr)}/join`;
+
+  let created = false;
+  try {
+    await client.bbb.callXml(
+      "create",
+      {
+        meetingID: meetingId,
+        name: meetingName,
+        record: false,
+        duration: durationMinutes,
+        moderatorPW,
+        attendeePW,
+        logoutURL: `${env.CORS_ORIGIN.replace(/\/+$/, "")}/ebluelearning`,
+      },
+      "create"
+    );
+    created = true;
+  } catch (e: any) {
+    if (!isBbbIdNotUniqueError(e)) throw e;
+  }
+
+  await ClassSessionModel.updateOne({ _id: new Types.ObjectId(sessionIdStr) }, { $set: { meetingLink: joinLink } });
+  return { created, joinLink };
+}
+
+/**
+ * End a session's BBB meeting (best-effort). Returns false when BBB is not configured
+ * or the meeting is not running.
+ */
+export async function endSessionMeeting(sessionIdStr: string): Promise<boolean> {
+  const client = bbbClientAndSalt();
+  if (!client) return false;
+  const { moderatorPW } = deriveMeetingPasswords({ meetingId: sessionIdStr, salt: client.salt });
+  try {
+    await client.bbb.callXml("end", { meetingID: sessionIdStr, password: moderatorPW }, "end");
+    return true;
+  } catch (e: any) {
+    // eslint-disable-next-line no-console
+    console.warn("[bbb] end meeting failed", { sessionId: sessionIdStr, error: String(e?.message || e) });
+    return false;
+  }
+}
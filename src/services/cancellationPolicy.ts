@@ -0,0 +1,54 @@
+import { Types, type ClientSession } from "mongoose";
+import { CancellationPolicyModel } from "../models/CancellationPolicy";
+
+export type RefundRule = "full" | "partial" | "none";
+
+export type EffectiveCancellationPolicy = {
+  source: "teacher" | "platform" | "default";
+  fullRefundHours: number;
+  partialRefundPercent: number;
+};
+
+// Used until an admin stores a platform policy.
+export const DEFAULT_CANCELLATION_POLICY = { fullRefundHours: 24, partialRefundPercent: 50 };
+
+/**
+ * Policy that applies to a teacher's lessons: the teacher override if any, else the platform policy.
+ */
+export async function resolveCancellationPolicy(
+  teacherId: string | Types.ObjectId,
+  session?: ClientSession
+): Promise<EffectiveCancellationPolicy> {
+  const rows = (await CancellationPolicyModel.find({
+    $or: [{ scope: "teacher", teacherId: new Types.ObjectId(String(teacherId)) }, { scope: "platform" }],
+  })
+    .session(session ?? null)
+    .lean()) as unknown as { scope: string; fullRefundHours: number; partialRefundPercent: number }[];
+
+  const row = rows.find((r) => r.scope === "teacher") ?? rows.find((r) => r.scope === "platform");
+  if (!row) return { source: "default", ...DEFAULT_CANCELLATION_POLICY };
+  return {
+    source: row.scope === "teacher" ? "teacher" : "platform",
+    fullRefundHours: row.fullRefundHours,
+    partialRefundPercent: row.partialRefundPercent,
+  };
+}
+
+/**
+ * Refund for a student cancelling at `now` a lesson starting at `startAt`:
+ * full beyond the window, partial inside it, nothing once the lesson has started.
+ */
+export function computeCancellationRefund(
+  policy: EffectiveCancellationPolicy,
+  priceCredits: number,
+  startAt: Date,
+  now: Date = new Date()
+): { rule: RefundRule; refundPercent: number; refundCredits: number } {
+  const msUntilStart = startAt.getTime() - now.getTime();
+  if (msUntilStart <= 0) return { rule: "none", refundPercent: 0, refundCredits: 0 };
+  if (msUntilStart >= policy.fullRefundHours * 60 * 60 * 1000) {
+    return { rule: "full", refundPercent: 100, refundCredits: priceCredits };
+  }
+  const refundPercent = policy.partialRefundPercent;
+  return { rule: "partial", refundPercent, refundCredits: Math.floor((priceCredits * refundPercent) / 100) };
+}
@@ -0,0 +1,31 @@
+import { env } from "../config/env";
+
+/** Packages that can be bought at `now`: active and inside their validity window. */
+export function purchasablePackageFilter(now: Date) {
+  return {
+    active: true,
+    $and: [
+      { $or: [{ validFrom: null }, { validFrom: { $lte: now } }] },
+      { $or: [{ validUntil: null }, { validUntil: { $gt: now } }] },
+    ],
+  };
+}
+
+/** API shape of a package. */
+export function packageRow(p: any) {
+  const credits = Number(p.credits ?? 0);
+  const bonusCredits = Number(p.bonusCredits ?? 0);
+  return {
+    id: String(p._id),
+    name: p.name,
+    description: p.description || "",
+    credits,
+    bonusCredits,
+    totalCredits: credits + bonusCredits,
+    priceCents: p.priceCents,
+    currency: p.currency,
+    validFrom: p.validFrom ?? null,
+    validUntil: p.validUntil ?? null,
+    creditValidityMonths: p.creditValidityMonths ?? env.CREDIT_EXPIRY_MONTHS,
+  };
+}
@@ -0,0 +1,263 @@
+import { Types, type ClientSession } from "mongoose";
+import { env } from "../config/env";
+import { CreditLotModel } from "../models/CreditLot";
+import { CreditTransactionModel, type CreditTxType } from "../models/CreditTransaction";
+import { WalletModel } from "../models/Wallet";
+
+/** Thrown when a ledger entry would take a wallet below zero. */
+export class InsufficientCreditsError extends Error {
+  constructor(public readonly balance: number, public readonly required: number) {
+    super("Not enough credits");
+    this.name = "InsufficientCreditsError";
+  }
+}
+
+/**
+ * Current credit balance of a user (their wallet; the ledger sum for users without one yet).
+ * Pass the Mongo session when called inside a transaction.
+ */
+export async function getCreditBalance(userId: string | Types.ObjectId, session?: ClientSession): Promise<number> {
+  const wallet = (await WalletModel.findOne({ userId: new Types.ObjectId(String(userId)) })
+    .select("balance")
+    .session(session ?? null)
+    .lean()) as { balance: number } | null;
+  if (wallet) return wallet.balance;
+  return ledgerBalance(userId, session);
+}
+
+/** Sum of the user's ledger entries (what the wallet must match). */
+export async function ledgerBalance(userId: string | Types.ObjectId, session?: ClientSession): Promise<number> {
+  const agg = CreditTransactionModel.aggregate([
+    { $match: { userId: { $eq: new Types.ObjectId(String(userId)) } } },
+    { $group: { _id: null, balance: { $sum: "$amount" } } },
+  ]);
+  if (session) agg.session(session);
+  const rows = await agg;
+  return Number(rows[0]?.balance ?? 0);
+}
+
+/** Expiry date of credits granted at `now` (null = never). `months` overrides CREDIT_EXPIRY_MONTHS. */
+export function creditExpiryFrom(now: Date, months?: number | null): Date | null {
+  const m = months ?? env.CREDIT_EXPIRY_MONTHS;
+  if (!m) return null;
+  const expiresAt = new Date(now);
+  expiresAt.setUTCMonth(expiresAt.getUTCMonth() + m);
+  return expiresAt;
+}
+
+export type CreditTxInput = {
+  userId: Types.ObjectId | string;
+  type: CreditTxType;
+  amount: number;
+  meta?: Record<string, unknown>;
+  related?: Record<string, unknown>;
+};
+
+export type CreditLotOptions = {
+  // Positive entries: expiry of the new lot (null = never). Defaults to CREDIT_EXPIRY_MONTHS from now.
+  expiresAt?: Date | null;
+  // Positive entries: take the latest expiry of the lots consumed by the matching (negative) ledger entries,
+  // so refunded or transferred credits keep the expiry they had.
+  inheritExpiryFrom?: Record<string, unknown>;
+  // Negative entries: consume this lot before any other
+  lotId?: Types.ObjectId;
+};
+
+/**
+ * Write a ledger entry and keep the user's wallet and credit lots in step: a positive amount opens a new lot,
+ * a negative amount first writes off the user's lots that are already past their expiry, then consumes the
+ * unexpired lots soonest-expiring first. All credit movements go through here.
+ * Throws InsufficientCreditsError (before writing anything) if the wallet would go negative.
+ */
+export async function postCreditTransaction(input: CreditTxInput, session?: ClientSession, opts: CreditLotOptions = {}) {
+  const userId = new Types.ObjectId(String(input.userId));
+  // Credits past their expiry must not pay for anything, even before the credit-expiry job has run
+  if (input.amount < 0 && input.type !== "expire") await expireDueLots(userId, session);
+  await applyToWallet(userId, input.amount, session);
+  await ensureOpeningLot(userId, session);
+
+  const [tx] = await CreditTransactionModel.create([{ ...input, userId, currency: "credits" }], { session });
+
+  let lots: { lotId: Types.ObjectId; amount: number }[] = [];
+  if (input.amount > 0) {
+    let expiresAt = opts.expiresAt;
+    if (expiresAt === undefined && opts.inheritExpiryFrom) expiresAt = await inheritedExpiry(opts.inheritExpiryFrom, session);
+    if (expiresAt === undefined) expiresAt = creditExpiryFrom(new Date());
+    const [lot] = await CreditLotModel.create(
+      [{ userId, sourceTxId: tx._id, sourceType: input.type, amount: input.amount, remaining: input.amount, expiresAt }],
+      { session }
+    );
+    lots = [{ lotId: lot._id, amount: input.amount }];
+  } else if (input.amount < 0) {
+    lots = await consumeLots(userId, -input.amount, session, opts.lotId);
+  }
+
+  if (lots.length) {
+    tx.lots = lots;
+    await tx.save({ session });
+  }
+  return tx;
+}
+
+/** Write off what is left of a credit lot with an `expire` entry (call inside a transaction). */
+export async function expireLot(
+  lot: { _id: Types.ObjectId; userId: Types.ObjectId; remaining: number },
+  session: ClientSession | undefined,
+  now = new Date()
+): Promise<void> {
+  await postCreditTransaction(
+    { userId: lot.userId, type: "expire", amount: -lot.remaining, related: { lotId: lot._id } },
+    session,
+    { lotId: lot._id }
+  );
+  await CreditLotModel.updateOne({ _id: lot._id }, { $set: { expiredAt: now } }, { session });
+}
+
+async function expireDueLots(userId: Types.ObjectId, session?: ClientSession): Promise<void> {
+  const now = new Date();
+  const due = (await CreditLotModel.find({ userId, remaining: { $gt: 0 }, expiresAt: { $ne: null, $lte: now } })
+    .select("_id userId remaining")
+    .session(session ?? null)
+    .lean()) as unknown as { _id: Types.ObjectId; userId: Types.ObjectId; remaining: number }[];
+  for (const lot of due) await expireLot(lot, session, now);
+}
+
+// Wallets are created from the ledger on a user's first credit movement (with the exact ledger sum, so they
+// never start out drifted); debits only apply if they fit.
+async function applyToWallet(userId: Types.ObjectId, amount: number, session?: ClientSession): Promise<void> {
+  if (!(await WalletModel.exists({ userId }).session(session ?? null))) {
+    const balance = await ledgerBalance(userId, session);
+    if (balance < 0) {
+      // Left over from before wallets enforced the balance; debits are refused until credits cover it
+      // eslint-disable-next-line no-console
+      console.warn("[credits] ledger balance is negative, wallet created with it", { userId: String(userId), balance });
+    }
+    await WalletModel.updateOne({ userId }, { $setOnInsert: { balance } }, { upsert: true, session });
+  }
+  const updated = await WalletModel.updateOne(
+    { userId, ...(amount < 0 ? { balance: { $gte: -amount } } : {}) },
+    { $inc: { balance: amount } },
+    { session }
+  );
+  if (updated.modifiedCount !== 1 && amount !== 0) {
+    throw new InsufficientCreditsError(await getCreditBalance(userId, session), -amount);
+  }
+}
+
+// Balances from before lot accounting become one lot, counted from the first credit movement after rollout.
+async function ensureOpeningLot(userId: Types.ObjectId, session?: ClientSession): Promise<void> {
+  if (await CreditLotModel.exists({ userId }).session(session ?? null)) return;
+  const balance = await ledgerBalance(userId, session);
+  if (balance <= 0) return;
+  await CreditLotModel.create(
+    [{ userId, sourceTxId: null, sourceType: "opening", amount: balance, remaining: balance, expiresAt: creditExpiryFrom(new Date()) }],
+    { session }
+  );
+}
+
+type LotRef = { _id: Types.ObjectId; remaining: number; expiresAt?: Date | null; createdAt?: Date };
+
+function expiryOrder(a: LotRef, b: LotRef): number {
+  const ea = a.expiresAt ? new Date(a.expiresAt).getTime() : Infinity;
+  const eb = b.expiresAt ? new Date(b.expiresAt).getTime() : Infinity;
+  if (ea !== eb) return ea < eb ? -1 : 1;
+  return new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime();
+}
+
+async function consumeLots(
+  userId: Types.ObjectId,
+  credits: number,
+  session?: ClientSession,
+  preferredLotId?: Types.ObjectId
+): Promise<{ lotId: Types.ObjectId; amount: number }[]> {
+  // Expired lots are only spent when asked for by id (the `expire` entry that writes them off)
+  const unexpired: Record<string, unknown>[] = [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }];
+  if (preferredLotId) unexpired.push({ _id: preferredLotId });
+  const lots = (await CreditLotModel.find({ userId, remaining: { $gt: 0 }, $or: unexpired })
+    .select("_id remaining expiresAt createdAt")
+    .session(session ?? null)
+    .lean()) as unknown as LotRef[];
+  lots.sort(expiryOrder);
+  if (preferredLotId) {
+    const i = lots.findIndex((l) => l._id.equals(preferredLotId));
+    if (i > 0) lots.unshift(...lots.splice(i, 1));
+  }
+
+  const used: { lotId: Types.ObjectId; amount: number }[] = [];
+  let left = credits;
+  for (const lot of lots) {
+    if (left <= 0) break;
+    const take = Math.min(left, lot.remaining);
+    const res = await CreditLotModel.updateOne(
+      { _id: lot._id, remaining: { $gte: take } },
+      { $inc: { remaining: -take } },
+      { session }
+    );
+    if (res.modifiedCount !== 1) continue;
+    used.push({ lotId: lot._id, amount: take });
+    left -= take;
+  }
+  if (left > 0) {
+    // eslint-disable-next-line no-console
+    console.warn("[credits] ledger entry not covered by credit lots", { userId: String(userId), missing: left });
+  }
+  return used;
+}
+
+// undefined = nothing to inherit from (use the default expiry), null = never expires
+async function inheritedExpiry(filter: Record<string, unknown>, session?: ClientSession): Promise<Date | null | undefined> {
+  const txs = (await CreditTransactionModel.find({ ...filter, amount: { $lt: 0 } })
+    .select("lots")
+    .session(session ?? null)
+    .lean()) as { lots?: { lotId: Types.ObjectId }[] }[];
+  const lotIds = txs.flatMap((t) => (t.lots ?? []).map((l) => l.lotId));
+  if (!lotIds.length) return undefined;
+
+  const lots = (await CreditLotModel.find({ _id: { $in: lotIds } })
+    .select("expiresAt")
+    .session(session ?? null)
+    .lean()) as { expiresAt?: Date | null }[];
+  if (!lots.length) return undefined;
+  if (lots.some((l) => !l.expiresAt)) return null;
+  return new Date(Math.max(...lots.map((l) => new Date(l.expiresAt!).getTime())));
+}
+
+/** Unused credits with an expiry date, grouped by that date (soonest first). */
+export async function getExpiringCredits(userId: string | Types.ObjectId): Promise<{ expiresAt: Date; credits: number }[]> {
+  const lots = (await CreditLotModel.find({
+    userId: new Types.ObjectId(String(userId)),
+    remaining: { $gt: 0 },
+    expiresAt: { $ne: null },
+  })
+    .sort({ expiresAt: 1 })
+    .select("remaining expiresAt")
+    .lean()) as unknown as { remaining: number; expiresAt: Date }[];
+
+  const out: { expiresAt: Date; credits: number }[] = [];
+  for (const lot of lots) {
+    const last = out[out.length - 1];
+    if (last && last.expiresAt.getTime() === new Date(lot.expiresAt).getTime()) last.credits += lot.remaining;
+    else out.push({ expiresAt: new Date(lot.expiresAt), credits: lot.remaining });
+  }
+  return out;
+}
+
+/**
+ * Move credits between two users as a paired share_out / share_in linked by `shareId`.
+ * The recipient's credits keep the expiry of the sender's credits they came from.
+ * Call inside a transaction so both entries are written or neither.
+ */
+export async function writeShareTransfer(
+  opts: { fromUserId: Types.ObjectId; toUserId: Types.ObjectId; amount: number; shareId: Types.ObjectId },
+  session: ClientSession
+): Promise<void> {
+  const out = await postCreditTransaction(
+    { userId: opts.fromUserId, type: "share_out", amount: -opts.amount, related: { shareId: opts.shareId } },
+    session
+  );
+  await postCreditTransaction(
+    { userId: opts.toUserId, type: "share_in", amount: opts.amount, related: { shareId: opts.shareId } },
+    session,
+    { inheritExpiryFrom: { _id: out._id } }
+  );
+}
@@ -0,0 +1,46 @@
+import { google, type calendar_v3 } from "googleapis";
+import { env } from "../config/env";
+import { UserModel } from "../models/User";
+import { decryptString } from "../utils/crypto";
+
+export type UserCalendar =
+  | { ok: true; calendar: calendar_v3.Calendar; calendarId: string }
+  | { ok: false; reason: "not_configured" | "not_connected" };
+
+/**
+ * Google Calendar API client authorized with the user's stored (encrypted) refresh token.
+ */
+export async function calendarForUser(userId: string): Promise<UserCalendar> {
+  if (!env.GOOGLE_CLIENT_ID || !env.GOOGLE_CLIENT_SECRET || !env.GOOGLE_REDIRECT_URI) {
+    return { ok: false, reason: "not_configured" };
+  }
+
+  const user = await UserModel.findById(userId).select("integrations.googleCalendar").lean();
+  const gc = (user as any)?.integrations?.googleCalendar;
+  if (!gc?.connected || !gc?.refreshTokenEncrypted) return { ok: false, reason: "not_connected" };
+
+  const refreshToken = decryptString(gc.refreshTokenEncrypted);
+  const oauth2 = new google.auth.OAuth2(env.GOOGLE_CLIENT_ID, env.GOOGLE_CLIENT_SECRET, env.GOOGLE_REDIRECT_URI);
+  oauth2.setCredentials({ refresh_token: refreshToken });
+  return { ok: true, calendar: google.calendar({ version: "v3", auth: oauth2 }), calendarId: gc.calendarId || "primary" };
+}
+
+/**
+ * Remove a booking's event from the user's Google Calendar (best-effort).
+ * An event that is already gone counts as removed.
+ */
+export async function deleteCalendarEvent(userId: string, eventId: string): Promise<boolean> {
+  if (!eventId) return false;
+  try {
+    const gc = await calendarForUser(userId);
+    if (!gc.ok) return false;
+    await gc.calendar.events.delete({ calendarId: gc.calendarId, eventId });
+    return true;
+  } catch (e: any) {
+    const status = Number(e?.code ?? e?.response?.status ?? 0);
+    if (status === 404 || status === 410) return true;
+    // eslint-disable-next-line no-console
+    console.warn("[google-calendar] delete event failed", { userId, eventId, error: String(e?.message || e) });
+    return false;
+  }
+}
@@ -0,0 +1,119 @@
+import mongoose, { Types } from "mongoose";
+import { BookingModel } from "../models/Booking";
+import { persistAndNotify, resolveTeacherUserId } from "../ws/emit";
+import { postCreditTransaction } from "./credits";
+import { rewardReferral, sendReferralRewardNotice, type ReferralReward } from "./referrals";
+import { recordLessonEarning } from "./teacherEarnings";
+
+export type CompletionActor = "teacher" | "system";
+
+/**
+ * Move a booked lesson to `completed` (no-op if it is no longer `booked`), credit the teacher's earnings and
+ * reward whoever referred the student if this is their first completed lesson, all in one transaction;
+ * then notify. Returns true when this call performed the transition.
+ */
+export async function completeBooking(bookingId: string | Types.ObjectId, by: CompletionActor): Promise<boolean> {
+  let booking: { _id: Types.ObjectId; studentUserId: Types.ObjectId } | null = null;
+  let reward: ReferralReward | null = null;
+  const mongoSession = await mongoose.startSession();
+  try {
+    await mongoSession.withTransaction(async () => {
+      reward = null;
+      booking = (await BookingModel.findOneAndUpdate(
+        { _id: new Types.ObjectId(String(bookingId)), status: "booked" },
+        { $set: { status: "completed", completedAt: new Date(), completedBy: by } },
+        { new: true, session: mongoSession }
+      ).lean()) as { _id: Types.ObjectId; studentUserId: Types.ObjectId } | null;
+      if (!booking) return;
+      await recordLessonEarning(booking._id, mongoSession);
+      reward = await rewardReferral(booking.studentUserId, booking._id, mongoSession);
+    });
+  } finally {
+    mongoSession.endSession();
+  }
+  const completed = booking as { _id: Types.ObjectId; studentUserId: Types.ObjectId } | null;
+  if (!completed) return false;
+
+  await persistAndNotify([String(completed.studentUserId)], "lesson_completed", {
+    bookingId: String(completed._id),
+    completedBy: by,
+  });
+  await sendReferralRewardNotice(reward);
+  return true;
+}
+
+/**
+ * Mark a booked lesson as a student no-show and notify the student (and the teacher when the system decided).
+ */
+export async function markBookingNoShow(bookingId: string | Types.ObjectId, by: CompletionActor): Promise<boolean> {
+  const booking = (await BookingModel.findOneAndUpdate(
+    { _id: new Types.ObjectId(String(bookingId)), status: "booked" },
+    { $set: { status: "no_show", completedAt: new Date(), completedBy: by } },
+    { new: true }
+  ).lean()) as { _id: Types.ObjectId; studentUserId: Types.ObjectId; teacherId: Types.ObjectId } | null;
+  if (!booking) return false;
+
+  const payload = { bookingId: String(booking._id), markedBy: by, absent: "student" };
+  const recipients = [String(booking.studentUserId)];
+  if (by === "system") {
+    const teacherUserId = await resolveTeacherUserId(booking.teacherId);
+    if (teacherUserId) recipients.push(teacherUserId);
+  }
+  await persistAndNotify(recipients, "lesson_no_show", payload);
+  return true;
+}
+
+/**
+ * The student joined but the teacher never did and did not confirm the lesson: cancel the booking with a
+ * full refund (no earning is recorded) and notify both. Returns true when this call performed the transition.
+ */
+export async function cancelBookingForTeacherNoShow(bookingId: string | Types.ObjectId): Promise<boolean> {
+  let booking: any = null;
+  const mongoSession = await mongoose.startSession();
+  try {
+    await mongoSession.withTransaction(async () => {
+      booking = await BookingModel.findOneAndUpdate(
+        { _id: new Types.ObjectId(String(bookingId)), status: "booked" },
+        {
+          $set: {
+            status: "cancelled",
+            cancelledAt: new Date(),
+            cancelledBy: "system",
+            cancellationReason: "Teacher did not join",
+          },
+        },
+        { new: true, session: mongoSession }
+      );
+      if (!booking) return;
+      booking.refundCredits = booking.priceCredits;
+      booking.refundRule = "full";
+      await booking.save({ session: mongoSession });
+
+      await postCreditTransaction(
+        {
+          userId: booking.studentUserId,
+          type: "refund",
+          amount: booking.priceCredits,
+          meta: { refundRule: "full", refundPercent: 100, reason: "teacher_no_show" },
+          related: { bookingId: booking._id, sessionId: booking.sessionId },
+        },
+        mongoSession,
+        { inheritExpiryFrom: { type: "spend", "related.bookingId": booking._id } }
+      );
+    });
+  } finally {
+    mongoSession.endSession();
+  }
+  if (!booking) return false;
+
+  const recipients = [String(booking.studentUserId)];
+  const teacherUserId = await resolveTeacherUserId(booking.teacherId);
+  if (teacherUserId) recipients.push(teacherUserId);
+  await persistAndNotify(recipients, "lesson_no_show", {
+    bookingId: String(booking._id),
+    markedBy: "system",
+    absent: "teacher",
+    refundCredits: booking.priceCredits,
+  });
+  return true;
+}
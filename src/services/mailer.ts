@@ -47,13 +47,39 @@ function createTransporter() {
   });
 };
 
+type CodeEmailTemplate = {
+  subject: string;
+  title: string;
+  intro: string;
+  footnote: string;
+};
+
+const VERIFY_EMAIL_TEMPLATE: CodeEmailTemplate = {
+  subject: 'Verify Your Email Address',
+  title: 'Email Verification',
+  intro: 'Thank you for registering! Please verify your email address by entering the verification code below:',
+  footnote: "This verification code will expire in 10 minutes. If you didn't create an account, please ignore this email.",
+};
+
+const PASSWORD_RESET_TEMPLATE: CodeEmailTemplate = {
+  subject: 'Reset Your Password',
+  title: 'Password Reset',
+  intro: 'We received a request to reset your password. Enter the code below to choose a new password:',
+  footnote:
+    "This code will expire in 10 minutes. If you didn't ask to reset your password, you can ignore this email; your password stays the same.",
+};
+
 export async function sendVerificationCodeEmail(to: string, code: string) {
   // Reuse the OTP style/template for email verification codes.
   return sendOTPEmail(to, code);
 }
 
+export async function sendPasswordResetEmail(to: string, code: string) {
+  return sendOTPEmail(to, code, '', PASSWORD_RESET_TEMPLATE);
+}
+
 
-const sendOTPEmail = async (email: string, otp: string, firstName = '') => {
+const sendOTPEmail = async (email: string, otp: string, firstName = '', template = VERIFY_EMAIL_TEMPLATE) => {
   try {
     // Validate email configuration before creating transporter
     if (!process.env.EMAIL_USER || !process.env.EMAIL_PASS) {
@@ -74,23 +100,23 @@ const sendOTPEmail = async (email: string, otp: string, firstName = '') => {
     const mailOptions = {
       from: `"${emailFrom}" <${fromAddress}>`,
       to: email,
-      subject: 'Verify Your Email Address',
+      subject: template.subject,
       html: `
         <!DOCTYPE html>
         <html>
         <head>
           <meta charset="utf-8">
           <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Email Verification</title>
+          <title>${template.title}</title>
         </head>
         <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
           <div style="background: linear-gradient(135deg, #59248F 0%, #7638ec 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
-            <h1 style="color: white; margin: 0;">Email Verification</h1>
+            <h1 style="color: white; margin: 0;">${template.title}</h1>
           </div>
           <div style="background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e0e0e0;">
             <p style="font-size: 16px; margin-bottom: 20px;">${greeting}</p>
             <p style="font-size: 16px; margin-bottom: 20px;">
-              Thank you for registering! Please verify your email address by entering the verification code below:
+              ${template.intro}
             </p>
             <div style="text-align: center; margin: 30px 0;">
               <div style="display: inline-block; background: #59248F; color: white; padding: 20px 40px; border-radius: 10px; font-weight: bold; font-size: 32px; letter-spacing: 8px; font-family: 'Courier New', monospace;">
@@ -98,7 +124,7 @@ const sendOTPEmail = async (email: string, otp: string, firstName = '') => {
               </div>
             </div>
             <p style="font-size: 14px; color: #666; margin-top: 30px;">
-              This verification code will expire in 10 minutes. If you didn't create an account, please ignore this email.
+              ${template.footnote}
             </p>
             <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 30px 0;">
             <p style="font-size: 12px; color: #999; text-align: center; margin: 0;">
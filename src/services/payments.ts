@@ -0,0 +1,399 @@
+import mongoose, { Types } from "mongoose";
+import { CreditLotModel } from "../models/CreditLot";
+import { PaymentModel } from "../models/Payment";
+import { SubscriptionModel } from "../models/Subscription";
+import { activePaymentProvider, getPaymentProvider, type PaymentEvent } from "../payments";
+import { creditExpiryFrom, getCreditBalance, postCreditTransaction } from "./credits";
+import { attachReferral } from "./referrals";
+import { recordPromoRedemption, releasePromoReservation, settlePromoRedemption, type PromoQuote } from "./promoCodes";
+import {
+  addBillingPeriod,
+  failSubscriptionPayment,
+  sendSubscriptionNotice,
+  settleSubscriptionPayment,
+  type SubscriptionNotice,
+} from "./subscriptions";
+
+/** API shape of a payment. */
+export function paymentRow(p: any) {
+  return {
+    id: String(p._id),
+    provider: p.provider,
+    status: p.status,
+    credits: p.credits,
+    packageId: p.packageId ? String(p.packageId) : null,
+    packageName: p.packageName || "",
+    subscriptionId: p.subscriptionId ? String(p.subscriptionId) : null,
+    periodStart: p.periodStart ?? null,
+    periodEnd: p.periodEnd ?? null,
+    promoCode: p.promoCode || "",
+    discountCents: p.discountCents ?? 0,
+    amountCents: p.amountCents,
+    currency: p.currency,
+    checkoutUrl: p.checkoutUrl || "",
+    failureReason: p.failureReason || "",
+    createdAt: p.createdAt,
+    succeededAt: p.succeededAt ?? null,
+    refundedAt: p.refundedAt ?? null,
+  };
+}
+
+export type PaymentResult<T> = { ok: true; value: T } | { ok: false; status: number; error: string };
+
+/**
+ * Create a pending payment for a credit package and open a checkout session with the active provider.
+ * Credits are granted later, when the provider confirms the payment (see applyPaymentEvent).
+ * `promo` is a promo code already reserved with reservePromoCode; the reservation is given back if the
+ * checkout cannot be started.
+ */
+export async function startPackageCheckout(opts: {
+  userId: string;
+  pkg: {
+    _id: Types.ObjectId;
+    name: string;
+    credits: number;
+    bonusCredits?: number;
+    priceCents: number;
+    currency: string;
+    creditValidityMonths?: number | null;
+  };
+  referralCode?: string;
+  promo?: PromoQuote;
+  metadata?: Record<string, string>;
+}) {
+  const { pkg, promo } = opts;
+  const userId = new Types.ObjectId(opts.userId);
+  const credits = pkg.credits + Number(pkg.bonusCredits ?? 0) + (promo?.bonusCredits ?? 0);
+  let payment: any = null;
+  try {
+    const provider = activePaymentProvider();
+    payment = await PaymentModel.create({
+      userId,
+      provider: provider.name,
+      status: "pending",
+      amountCents: pkg.priceCents - (promo?.discountCents ?? 0),
+      currency: pkg.currency,
+      credits,
+      packageId: pkg._id,
+      packageName: pkg.name,
+      creditValidityMonths: pkg.creditValidityMonths ?? null,
+      referralCode: opts.referralCode ?? "",
+      ...(promo
+        ? {
+            promoCodeId: promo.promoCodeId,
+            promoCode: promo.code,
+            discountCents: promo.discountCents,
+            promoBonusCredits: promo.bonusCredits,
+          }
+        : {}),
+    });
+    if (promo) await recordPromoRedemption(promo, userId, payment._id);
+  } catch (e: any) {
+    // No redemption was recorded: give the reserved use back directly
+    if (promo) await releasePromoReservation(promo.promoCodeId, userId);
+    if (payment) {
+      const failureReason = String(e?.message || "checkout_failed").slice(0, 500);
+      await PaymentModel.updateOne(
+        { _id: payment._id, status: "pending" },
+        { $set: { status: "failed", failedAt: new Date(), failureReason } }
+      );
+    }
+    throw e;
+  }
+
+  try {
+    await openCheckout(payment, `${pkg.name} (${credits} credits)`, opts.metadata);
+  } catch (e) {
+    await settlePromoRedemption(payment._id, "released");
+    throw e;
+  }
+  return payment;
+}
+
+// Open the provider checkout for a pending payment; the payment is marked failed if the provider refuses.
+async function openCheckout(payment: any, description: string, metadata?: Record<string, string>): Promise<void> {
+  const provider = getPaymentProvider(payment.provider);
+  try {
+    if (!provider) throw new Error("Payment provider is not available");
+    const checkout = await provider.createCheckout({
+      paymentId: String(payment._id),
+      amountCents: payment.amountCents,
+      currency: payment.currency,
+      description,
+      metadata,
+    });
+    payment.providerRef = checkout.providerRef;
+    payment.checkoutUrl = checkout.checkoutUrl;
+    await payment.save();
+  } catch (e: any) {
+    payment.status = "failed";
+    payment.failureReason = String(e?.message || "checkout_failed").slice(0, 500);
+    payment.failedAt = new Date();
+    await payment.save();
+    throw e;
+  }
+}
+
+/**
+ * Charge the period of a subscription starting at `periodStart` (its first period, or a renewal).
+ * The payment is keyed by subscription, period and attempt, so running this twice for the same period
+ * opens a single checkout; returns null when another run already claimed it. If the checkout cannot be
+ * opened the payment counts as failed (see failSubscriptionPayment) and the error is rethrown.
+ */
+export async function startSubscriptionCheckout(opts: {
+  subscriptionId: Types.ObjectId;
+  periodStart: Date;
+  metadata?: Record<string, string>;
+}) {
+  const sub = await SubscriptionModel.findById(opts.subscriptionId);
+  if (!sub) return null;
+  const key = { subscriptionId: sub._id, periodStart: opts.periodStart, renewalAttempt: sub.renewalAttempts ?? 0 };
+
+  let payment = await PaymentModel.findOne(key);
+  if (!payment) {
+    try {
+      payment = await PaymentModel.create({
+        ...key,
+        userId: sub.userId,
+        provider: activePaymentProvider().name,
+        status: "pending",
+        amountCents: sub.priceCents,
+        currency: sub.currency,
+        credits: sub.creditsPerPeriod,
+        packageName: sub.planName,
+        periodEnd: addBillingPeriod(opts.periodStart, sub.periodMonths),
+      });
+    } catch (e: any) {
+      if (e?.code !== 11000) throw e;
+      payment = await PaymentModel.findOne(key);
+    }
+  }
+  if (!payment || payment.status !== "pending") return null;
+
+  // Only the run that attaches the payment to the subscription opens the checkout.
+  const claimed = await SubscriptionModel.updateOne(
+    { _id: sub._id, pendingPaymentId: null, renewalAttempts: key.renewalAttempt },
+    { $set: { pendingPaymentId: payment._id } }
+  );
+  if (claimed.modifiedCount !== 1) return null;
+
+  try {
+    await openCheckout(payment, `${sub.planName} (${sub.creditsPerPeriod} credits)`, opts.metadata);
+  } catch (e) {
+    let notice: SubscriptionNotice | null = null;
+    const mongoSession = await mongoose.startSession();
+    try {
+      await mongoSession.withTransaction(async () => {
+        notice = await failSubscriptionPayment(payment, mongoSession);
+      });
+    } finally {
+      mongoSession.endSession();
+    }
+    await sendSubscriptionNotice(notice);
+    throw e;
+  }
+  return payment;
+}
+
+/**
+ * Apply a verified provider event to its payment. Safe to call more than once per event:
+ * the event id is recorded and status changes are conditional.
+ * Returns false if the event does not belong to a known payment.
+ */
+export async function applyPaymentEvent(providerName: string, event: PaymentEvent): Promise<boolean> {
+  const payment = await PaymentModel.findOne({ provider: providerName, providerRef: event.providerRef })
+    .select("_id")
+    .lean();
+  if (!payment) return false;
+  const paymentId = (payment as { _id: Types.ObjectId })._id;
+  const now = new Date();
+
+  let notice: SubscriptionNotice | null = null;
+  const mongoSession = await mongoose.startSession();
+  try {
+    await mongoSession.withTransaction(async () => {
+      notice = null;
+      const fresh = { _id: paymentId, processedEventIds: { $ne: event.id } };
+      const seen = { $push: { processedEventIds: event.id } };
+
+      if (event.type === "payment.succeeded") {
+        // A checkout expired by the expiry jobs was still paid: grant it anyway (see settleSubscriptionPayment)
+        const p = await PaymentModel.findOneAndUpdate(
+          { ...fresh, $or: [{ status: "pending" }, { status: "failed", failureReason: "checkout_expired" }] },
+          { $set: { status: "succeeded", succeededAt: now, failureReason: "" }, ...seen },
+          { new: true, session: mongoSession }
+        );
+        if (!p) return;
+        const tx = await postCreditTransaction(
+          {
+            userId: p.userId,
+            type: "purchase",
+            amount: p.credits,
+            meta: {
+              method: p.provider,
+              referralCode: p.referralCode || "",
+              packageId: p.packageId,
+              priceCents: p.amountCents,
+              priceCurrency: p.currency,
+              ...(p.promoCode ? { promoCode: p.promoCode } : {}),
+            },
+            related: { paymentId: p._id, ...(p.subscriptionId ? { subscriptionId: p.subscriptionId } : {}) },
+          },
+          mongoSession,
+          { expiresAt: creditExpiryFrom(now, p.creditValidityMonths) }
+        );
+        await PaymentModel.updateOne({ _id: p._id }, { $set: { creditTxId: tx._id } }, { session: mongoSession });
+        await settlePromoRedemption(p._id, "redeemed", mongoSession);
+        if (p.referralCode) {
+          // Checked when the checkout started; the student may have been referred or had a lesson since
+          const referral = await attachReferral(p.userId, p.referralCode, mongoSession);
+          if (!referral.ok) {
+            // eslint-disable-next-line no-console
+            console.warn("[payments] referral code not recorded", { paymentId: String(p._id), error: referral.error });
+          }
+        }
+        if (p.subscriptionId) notice = await settleSubscriptionPayment(p, tx._id, mongoSession);
+        return;
+      }
+
+      if (event.type === "payment.failed") {
+        const p = await PaymentModel.findOneAndUpdate(
+          { ...fresh, status: "pending" },
+          { $set: { status: "failed", failedAt: now, failureReason: event.failureReason || "payment_failed" }, ...seen },
+          { new: true, session: mongoSession }
+        );
+        if (!p) return;
+        await settlePromoRedemption(p._id, "released", mongoSession);
+        if (p.subscriptionId) notice = await failSubscriptionPayment(p, mongoSession, now);
+        return;
+      }
+
+      if (event.type === "refund.succeeded") {
+        await PaymentModel.updateOne(
+          { ...fresh, status: "refund_pending" },
+          { $set: { status: "refunded", refundedAt: now }, ...seen },
+          { session: mongoSession }
+        );
+        return;
+      }
+
+      if (event.type === "refund.failed") {
+        const p = await PaymentModel.findOneAndUpdate(
+          { ...fresh, status: "refund_pending" },
+          { $set: { status: "succeeded", failureReason: event.failureReason || "refund_failed" }, ...seen },
+          { new: true, session: mongoSession }
+        );
+        if (p) await restoreRefundedCredits(p, mongoSession);
+      }
+    });
+  } finally {
+    mongoSession.endSession();
+  }
+  await sendSubscriptionNotice(notice);
+  return true;
+}
+
+// Credits come back with the expiry they had when the refund took them.
+async function restoreRefundedCredits(p: any, mongoSession: mongoose.ClientSession) {
+  await postCreditTransaction(
+    {
+      userId: p.userId,
+      type: "payment_refund",
+      amount: p.credits,
+      meta: { method: "refund_failed" },
+      related: { paymentId: p._id },
+    },
+    mongoSession,
+    { inheritExpiryFrom: { type: "payment_refund", "related.paymentId": p._id } }
+  );
+}
+
+/**
+ * Refund a confirmed payment. The purchased credits leave the ledger (payment_refund) before the provider
+ * is called, so the student must still have them; they come back if the provider refuses the refund.
+ */
+export async function refundPayment(paymentIdStr: string, byUserId: string): Promise<PaymentResult<any>> {
+  if (!Types.ObjectId.isValid(paymentIdStr)) return { ok: false, status: 400, error: "Invalid payment id" };
+  const paymentId = new Types.ObjectId(paymentIdStr);
+
+  let failure: { status: number; error: string } | null = null;
+  const mongoSession = await mongoose.startSession();
+  try {
+    await mongoSession.withTransaction(async () => {
+      failure = null;
+      const p = await PaymentModel.findOne({ _id: paymentId, status: "succeeded" }).session(mongoSession);
+      if (!p) {
+        failure = { status: 409, error: "Only succeeded payments can be refunded" };
+        return;
+      }
+      const balance = await getCreditBalance(p.userId, mongoSession);
+      if (balance < p.credits) {
+        failure = { status: 409, error: "The student has already used these credits" };
+        return;
+      }
+      await PaymentModel.updateOne(
+        { _id: paymentId, status: "succeeded" },
+        { $set: { status: "refund_pending", refundedByUserId: new Types.ObjectId(byUserId) } },
+        { session: mongoSession }
+      );
+      // Take the credits out of the lot the payment created first
+      const lot = p.creditTxId
+        ? ((await CreditLotModel.findOne({ sourceTxId: p.creditTxId }).select("_id").session(mongoSession).lean()) as {
+            _id: Types.ObjectId;
+          } | null)
+        : null;
+      await postCreditTransaction(
+        {
+          userId: p.userId,
+          type: "payment_refund",
+          amount: -p.credits,
+          meta: { method: p.provider },
+          related: { paymentId: p._id },
+        },
+        mongoSession,
+        { lotId: lot?._id }
+      );
+    });
+  } finally {
+    mongoSession.endSession();
+  }
+  if (failure) return { ok: false, ...(failure as { status: number; error: string }) };
+
+  const payment = await PaymentModel.findById(paymentId);
+  const provider = payment ? getPaymentProvider(payment.provider) : null;
+  if (!payment || !provider) return { ok: false, status: 500, error: "Payment provider is not available" };
+
+  let refundStatus: "succeeded" | "pending" | "failed" = "failed";
+  try {
+    const refund = await provider.refund({ providerRef: payment.providerRef, amountCents: payment.amountCents });
+    payment.refundRef = refund.refundRef;
+    refundStatus = refund.status;
+  } catch (e: any) {
+    payment.failureReason = String(e?.message || "refund_failed").slice(0, 500);
+  }
+
+  if (refundStatus === "failed") {
+    // Undo: the payment stays succeeded and the credits go back to the student.
+    const undo = await mongoose.startSession();
+    try {
+      await undo.withTransaction(async () => {
+        const p = await PaymentModel.findOneAndUpdate(
+          { _id: paymentId, status: "refund_pending" },
+          { $set: { status: "succeeded", failureReason: payment.failureReason || "refund_failed" } },
+          { new: true, session: undo }
+        );
+        if (p) await restoreRefundedCredits(p, undo);
+      });
+    } finally {
+      undo.endSession();
+    }
+    return { ok: false, status: 502, error: "The payment provider refused the refund" };
+  }
+
+  if (refundStatus === "succeeded") {
+    payment.status = "refunded";
+    payment.refundedAt = new Date();
+  }
+  await payment.save();
+  return { ok: true, value: payment.toObject() };
+}
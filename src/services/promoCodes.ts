@@ -0,0 +1,155 @@
+import { Types, type ClientSession } from "mongoose";
+import { PromoCodeModel } from "../models/PromoCode";
+import { PromoCodeUsageModel } from "../models/PromoCodeUsage";
+import { PromoRedemptionModel } from "../models/PromoRedemption";
+import type { PaymentResult } from "./payments";
+
+export type PromoQuote = { promoCodeId: Types.ObjectId; code: string; discountCents: number; bonusCredits: number };
+
+/** Promo codes that can be used at `now`: active and inside their validity window. */
+export function usablePromoCodeFilter(now: Date) {
+  return {
+    active: true,
+    $and: [
+      { $or: [{ validFrom: null }, { validFrom: { $lte: now } }] },
+      { $or: [{ validUntil: null }, { validUntil: { $gt: now } }] },
+    ],
+  };
+}
+
+/** API shape of a promo code (admin). */
+export function promoCodeRow(p: any) {
+  return {
+    id: String(p._id),
+    code: p.code,
+    description: p.description || "",
+    kind: p.kind,
+    percentOff: p.percentOff ?? null,
+    bonusCredits: p.bonusCredits ?? null,
+    maxRedemptions: p.maxRedemptions ?? null,
+    perUserLimit: p.perUserLimit ?? 1,
+    redemptionCount: p.redemptionCount ?? 0,
+    active: Boolean(p.active),
+    validFrom: p.validFrom ?? null,
+    validUntil: p.validUntil ?? null,
+    createdAt: p.createdAt,
+  };
+}
+
+// What the code is worth on a package of `priceCents` (a discount never makes it free).
+function quote(promo: any, priceCents: number): PromoQuote {
+  const discountCents =
+    promo.kind === "percent_off" ? Math.min(priceCents - 1, Math.round((priceCents * Number(promo.percentOff)) / 100)) : 0;
+  return {
+    promoCodeId: promo._id,
+    code: promo.code,
+    discountCents: Math.max(0, discountCents),
+    bonusCredits: promo.kind === "bonus_credits" ? Number(promo.bonusCredits ?? 0) : 0,
+  };
+}
+
+// Claim one of the student's `limit` uses. The usage counter starts from the redemptions made before it existed.
+async function claimUserUse(promoCodeId: Types.ObjectId, userId: Types.ObjectId, limit: number): Promise<boolean> {
+  if (!(await PromoCodeUsageModel.exists({ promoCodeId, userId }))) {
+    const count = await PromoRedemptionModel.countDocuments({ promoCodeId, userId, status: { $in: ["pending", "redeemed"] } });
+    try {
+      await PromoCodeUsageModel.create({ promoCodeId, userId, count });
+    } catch (e: any) {
+      if (e?.code !== 11000) throw e; // created by a concurrent checkout
+    }
+  }
+  const claimed = await PromoCodeUsageModel.updateOne(
+    { promoCodeId, userId, count: { $lt: limit } },
+    { $inc: { count: 1 } }
+  );
+  return claimed.modifiedCount === 1;
+}
+
+/**
+ * Reserve one use of a promo code for a checkout (counts against maxRedemptions and perUserLimit right away).
+ * Record the redemption with recordPromoRedemption once the payment exists, or give the use back with
+ * releasePromoReservation if the checkout cannot be started.
+ */
+export async function reservePromoCode(
+  rawCode: string,
+  userId: Types.ObjectId,
+  priceCents: number,
+  now = new Date()
+): Promise<PaymentResult<PromoQuote>> {
+  const code = rawCode.trim().toUpperCase();
+  const promo = (await PromoCodeModel.findOne({ code, ...usablePromoCodeFilter(now) }).lean()) as any | null;
+  if (!promo) return { ok: false, status: 400, error: "Invalid or expired promo code" };
+
+  if (!(await claimUserUse(promo._id, userId, Number(promo.perUserLimit ?? 1)))) {
+    return { ok: false, status: 409, error: "You have already used this promo code" };
+  }
+
+  const reserved = await PromoCodeModel.updateOne(
+    {
+      _id: promo._id,
+      active: true,
+      $or: [{ maxRedemptions: null }, { $expr: { $lt: ["$redemptionCount", "$maxRedemptions"] } }],
+    },
+    { $inc: { redemptionCount: 1 } }
+  );
+  if (reserved.modifiedCount !== 1) {
+    await PromoCodeUsageModel.updateOne({ promoCodeId: promo._id, userId, count: { $gt: 0 } }, { $inc: { count: -1 } });
+    return { ok: false, status: 409, error: "This promo code has been used up" };
+  }
+  return { ok: true, value: quote(promo, priceCents) };
+}
+
+/** Give back a use reserved with reservePromoCode (to the code and to the student's limit). */
+export async function releasePromoReservation(
+  promoCodeId: Types.ObjectId,
+  userId: Types.ObjectId,
+  session?: ClientSession
+): Promise<void> {
+  await PromoCodeModel.updateOne(
+    { _id: promoCodeId, redemptionCount: { $gt: 0 } },
+    { $inc: { redemptionCount: -1 } },
+    { session }
+  );
+  await PromoCodeUsageModel.updateOne({ promoCodeId, userId, count: { $gt: 0 } }, { $inc: { count: -1 } }, { session });
+}
+
+export async function recordPromoRedemption(promo: PromoQuote, userId: Types.ObjectId, paymentId: Types.ObjectId) {
+  await PromoRedemptionModel.create({
+    promoCodeId: promo.promoCodeId,
+    code: promo.code,
+    userId,
+    paymentId,
+    status: "pending",
+    discountCents: promo.discountCents,
+    bonusCredits: promo.bonusCredits,
+  });
+}
+
+/**
+ * Close the pending redemption of a payment: `redeemed` when it succeeded, `released` (the use is
+ * given back) when it failed or expired. A payment confirmed after it expired takes its use again.
+ * No-op for payments without a promo code.
+ */
+export async function settlePromoRedemption(
+  paymentId: Types.ObjectId,
+  outcome: "redeemed" | "released",
+  session?: ClientSession
+): Promise<void> {
+  const now = new Date();
+  const before = (await PromoRedemptionModel.findOneAndUpdate(
+    { paymentId, status: outcome === "redeemed" ? { $in: ["pending", "released"] } : "pending" },
+    { $set: { status: outcome, ...(outcome === "redeemed" ? { redeemedAt: now } : { releasedAt: now }) } },
+    { new: false, session }
+  ).lean()) as { promoCodeId: Types.ObjectId; userId: Types.ObjectId; status: string } | null;
+  if (!before) return;
+  if (outcome === "released") {
+    await releasePromoReservation(before.promoCodeId, before.userId, session);
+  } else if (before.status === "released") {
+    await PromoCodeModel.updateOne({ _id: before.promoCodeId }, { $inc: { redemptionCount: 1 } }, { session });
+    await PromoCodeUsageModel.updateOne(
+      { promoCodeId: before.promoCodeId, userId: before.userId },
+      { $inc: { count: 1 } },
+      { upsert: true, session }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { env } from "../config/env";
+import { RateLimitHitModel } from "../models/RateLimitHit";
+
+/** At most `max` requests per subject in any `windowSeconds` window (sliding). */
+export type RateLimitRule = { name: string; max: number; windowSeconds: number };
+
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+function hitKey(rule: RateLimitRule, subject: string): string {
+  return `${rule.name}:${subject}`;
+}
+
+function lockKey(name: string, subject: string): string {
+  return `lock:${name}:${subject}`;
+}
+
+function secondsUntil(date: Date, now: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+}
+
+/**
+ * Whether one more request fits in the window, without counting it. When it does not, `retryAfterSeconds`
+ * is when enough of the counted requests have left the window.
+ */
+export async function checkRateLimit(rule: RateLimitRule, subject: string, now = new Date()): Promise<RateLimitResult> {
+  const since = new Date(now.getTime() - rule.windowSeconds * 1000);
+  const key = hitKey(rule, subject);
+  const count = await RateLimitHitModel.countDocuments({ key, at: { $gt: since } });
+  if (count < rule.max) return { allowed: true };
+
+  // The request fits again once the (count - max + 1) oldest hits have left the window.
+  const hit = (await RateLimitHitModel.findOne({ key, at: { $gt: since } })
+    .sort({ at: 1 })
+    .skip(count - rule.max)
+    .select("at")
+    .lean()) as { at: Date } | null;
+  const freeAt = hit ? new Date(new Date(hit.at).getTime() + rule.windowSeconds * 1000) : now;
+  return { allowed: false, retryAfterSeconds: secondsUntil(freeAt, now) };
+}
+
+/** Count a request against a rule. Returns how many requests the window now holds. */
+export async function recordHit(rule: RateLimitRule, subject: string, now = new Date()): Promise<number> {
+  const key = hitKey(rule, subject);
+  await RateLimitHitModel.create({ key, at: now, expiresAt: new Date(now.getTime() + rule.windowSeconds * 1000) });
+  return RateLimitHitModel.countDocuments({ key, at: { $gt: new Date(now.getTime() - rule.windowSeconds * 1000) } });
+}
+
+/**
+ * Check and count a request against several rules at once. It is allowed only if every rule allows it, and a
+ * refused request is not counted by any rule. Hits are inserted before counting (and removed again when
+ * over a limit), so a burst of parallel requests cannot get past `max`.
+ */
+export async function consumeRateLimits(
+  limits: { rule: RateLimitRule; subject: string }[],
+  now = new Date()
+): Promise<RateLimitResult> {
+  // Cheap pre-check, so requests that are already over a limit write nothing
+  for (const { rule, subject } of limits) {
+    const result = await checkRateLimit(rule, subject, now);
+    if (!result.allowed) return result;
+  }
+
+  const hits = await RateLimitHitModel.insertMany(
+    limits.map(({ rule, subject }) => ({
+      key: hitKey(rule, subject),
+      at: now,
+      expiresAt: new Date(now.getTime() + rule.windowSeconds * 1000),
+    }))
+  );
+  for (const { rule, subject } of limits) {
+    const since = new Date(now.getTime() - rule.windowSeconds * 1000);
+    const count = await RateLimitHitModel.countDocuments({ key: hitKey(rule, subject), at: { $gt: since } });
+    if (count <= rule.max) continue;
+
+    await RateLimitHitModel.deleteMany({ _id: { $in: hits.map((h) => h._id) } });
+    const result = await checkRateLimit(rule, subject, now);
+    // Lost the race against parallel requests that are rolling back too: retry shortly
+    return result.allowed ? { allowed: false, retryAfterSeconds: 1 } : result;
+  }
+  return { allowed: true };
+}
+
+export async function consumeRateLimit(rule: RateLimitRule, subject: string, now = new Date()): Promise<RateLimitResult> {
+  return consumeRateLimits([{ rule, subject }], now);
+}
+
+export async function resetRateLimit(rule: RateLimitRule, subject: string): Promise<void> {
+  await RateLimitHitModel.deleteMany({ key: hitKey(rule, subject) });
+}
+
+/** Block a subject (e.g. an account after repeated login failures) until `until`. */
+export async function lockSubject(name: string, subject: string, until: Date): Promise<void> {
+  await RateLimitHitModel.create({ key: lockKey(name, subject), at: new Date(), expiresAt: until });
+}
+
+/** Seconds left on an active lock, or 0. */
+export async function lockedForSeconds(name: string, subject: string, now = new Date()): Promise<number> {
+  const lock = (await RateLimitHitModel.findOne({ key: lockKey(name, subject), expiresAt: { $gt: now } })
+    .sort({ expiresAt: -1 })
+    .select("expiresAt")
+    .lean()) as { expiresAt: Date } | null;
+  return lock ? secondsUntil(new Date(lock.expiresAt), now) : 0;
+}
+
+// --- Login lockout ---
+// Failed sign-ins (wrong password or second factor) are counted per email address, whether or not the
+// account exists, so a lockout does not tell anyone which addresses are registered.
+
+const LOGIN_LOCK = "login";
+
+function loginFailureRule(): RateLimitRule {
+  return { name: "login-failure", max: env.LOGIN_LOCKOUT_THRESHOLD, windowSeconds: env.LOGIN_LOCKOUT_WINDOW_MINUTES * 60 };
+}
+
+export async function loginLockedForSeconds(email: string): Promise<number> {
+  return lockedForSeconds(LOGIN_LOCK, email.trim().toLowerCase());
+}
+
+/** Count a failed sign-in; returns the lockout in seconds if this failure triggered one (else 0). */
+export async function recordLoginFailure(email: string, now = new Date()): Promise<number> {
+  const subject = email.trim().toLowerCase();
+  const failures = await recordHit(loginFailureRule(), subject, now);
+  if (failures < env.LOGIN_LOCKOUT_THRESHOLD) return 0;
+
+  const until = new Date(now.getTime() + env.LOGIN_LOCKOUT_MINUTES * 60 * 1000);
+  await lockSubject(LOGIN_LOCK, subject, until);
+  await resetRateLimit(loginFailureRule(), subject);
+  // eslint-disable-next-line no-console
+  console.warn("[auth] account locked after repeated login failures", { email: subject, until });
+  return secondsUntil(until, now);
+}
+
+export async function clearLoginFailures(email: string): Promise<void> {
+  await resetRateLimit(loginFailureRule(), email.trim().toLowerCase());
+}
@@ -0,0 +1,134 @@
+import crypto from "crypto";
+import { Types, type ClientSession } from "mongoose";
+import { env } from "../config/env";
+import { BookingModel } from "../models/Booking";
+import { ReferralModel } from "../models/Referral";
+import { UserModel } from "../models/User";
+import { persistAndNotify } from "../ws/emit";
+import { postCreditTransaction } from "./credits";
+import type { PaymentResult } from "./payments";
+
+// No 0/O or 1/I, so codes survive being read out loud
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+function randomReferralCode(): string {
+  const bytes = crypto.randomBytes(CODE_LENGTH);
+  let code = "";
+  for (const b of bytes) code += CODE_ALPHABET[b % CODE_ALPHABET.length];
+  return code;
+}
+
+/** The student's referral code, created on first use. */
+export async function getOrCreateReferralCode(userId: string | Types.ObjectId): Promise<string> {
+  const _id = new Types.ObjectId(String(userId));
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const user = (await UserModel.findById(_id).select("referralCode").lean()) as { referralCode?: string } | null;
+    if (!user) throw new Error("User not found");
+    if (user.referralCode) return user.referralCode;
+    try {
+      await UserModel.updateOne({ _id, referralCode: null }, { $set: { referralCode: randomReferralCode() } });
+    } catch (e: any) {
+      if (e?.code !== 11000) throw e; // code taken: try another one
+    }
+  }
+  throw new Error("Could not create a referral code");
+}
+
+/**
+ * Check that a student may be referred by the owner of `rawCode` without recording anything: a student
+ * can be referred once, and only before completing a lesson. Repeating the same code is allowed.
+ */
+export async function checkReferral(
+  studentUserId: Types.ObjectId,
+  rawCode: string,
+  session?: ClientSession
+): Promise<PaymentResult<{ code: string; referrerUserId: Types.ObjectId; attached: boolean }>> {
+  const code = rawCode.trim().toUpperCase();
+  const referrer = (await UserModel.findOne({ referralCode: code, role: "student" })
+    .select("_id")
+    .session(session ?? null)
+    .lean()) as { _id: Types.ObjectId } | null;
+  if (!referrer) return { ok: false, status: 400, error: "Unknown referral code" };
+  if (referrer._id.equals(studentUserId)) return { ok: false, status: 400, error: "You cannot use your own referral code" };
+
+  const existing = (await ReferralModel.findOne({ referredUserId: studentUserId })
+    .select("code")
+    .session(session ?? null)
+    .lean()) as { code: string } | null;
+  if (existing) {
+    return existing.code === code
+      ? { ok: true, value: { code, referrerUserId: referrer._id, attached: true } }
+      : { ok: false, status: 409, error: "You were already referred by another student" };
+  }
+  if (await BookingModel.exists({ studentUserId, status: "completed" }).session(session ?? null)) {
+    return { ok: false, status: 409, error: "Referral codes are only for new students" };
+  }
+  return { ok: true, value: { code, referrerUserId: referrer._id, attached: false } };
+}
+
+/**
+ * Record that a new student was referred by the owner of `rawCode` (see checkReferral).
+ * Repeating the same code is a no-op.
+ */
+export async function attachReferral(
+  studentUserId: Types.ObjectId,
+  rawCode: string,
+  session?: ClientSession
+): Promise<PaymentResult<null>> {
+  const check = await checkReferral(studentUserId, rawCode, session);
+  if (!check.ok) return check;
+  if (check.value.attached) return { ok: true, value: null };
+
+  const { code, referrerUserId } = check.value;
+  try {
+    await ReferralModel.create([{ referrerUserId, referredUserId: studentUserId, code }], { session });
+  } catch (e: any) {
+    // Inside a transaction the write error has aborted it: rethrow so the caller retries
+    if (e?.code === 11000 && !session) return { ok: false, status: 409, error: "You were already referred by another student" };
+    throw e;
+  }
+  return { ok: true, value: null };
+}
+
+export type ReferralReward = { referralId: Types.ObjectId; referrerUserId: Types.ObjectId; credits: number };
+
+/**
+ * Credit the referrer (REFERRAL_REWARD_CREDITS) when a referred student's lesson is completed (call inside
+ * the transaction that completes the booking). Only the first completed lesson counts: the referral is
+ * rewarded once. Returns the reward to announce after commit, or null.
+ */
+export async function rewardReferral(
+  studentUserId: Types.ObjectId,
+  bookingId: Types.ObjectId,
+  session: ClientSession
+): Promise<ReferralReward | null> {
+  const credits = env.REFERRAL_REWARD_CREDITS;
+  if (!credits) return null;
+  const referral = await ReferralModel.findOneAndUpdate(
+    { referredUserId: studentUserId, status: "pending" },
+    { $set: { status: "rewarded", rewardedAt: new Date(), rewardCredits: credits, bookingId } },
+    { new: true, session }
+  );
+  if (!referral) return null;
+  const tx = await postCreditTransaction(
+    {
+      userId: referral.referrerUserId,
+      type: "referral_reward",
+      amount: credits,
+      related: { referralId: referral._id, bookingId },
+    },
+    session
+  );
+  referral.rewardTxId = tx._id;
+  await referral.save({ session });
+  return { referralId: referral._id, referrerUserId: referral.referrerUserId, credits };
+}
+
+export async function sendReferralRewardNotice(reward: ReferralReward | null): Promise<void> {
+  if (!reward) return;
+  await persistAndNotify([String(reward.referrerUserId)], "referral_rewarded", {
+    referralId: String(reward.referralId),
+    credits: reward.credits,
+  });
+}
@@ -0,0 +1,66 @@
+import { Types, type ClientSession } from "mongoose";
+import { ClassSessionModel } from "../models/ClassSession";
+
+// Sessions created before group classes have no capacity/seatsBooked fields:
+// treat them as one seat, taken when the legacy status is "booked".
+const capacityExpr = { $ifNull: ["$capacity", 1] };
+const seatsBookedExpr = { $ifNull: ["$seatsBooked", { $cond: [{ $eq: ["$status", "booked"] }, 1, 0] }] };
+
+/**
+ * Filter matching sessions whose free seats `studentUserId` may take: no active waitlist hold,
+ * the hold is theirs, or another seat stays free for the holder.
+ */
+export function seatHoldFilter(studentUserId: Types.ObjectId, now: Date) {
+  return {
+    $or: [
+      { hold: null },
+      { "hold.expiresAt": { $lte: now } },
+      { "hold.studentUserId": studentUserId },
+      { $expr: { $lt: [{ $add: [seatsBookedExpr, 1] }, capacityExpr] } },
+    ],
+  };
+}
+
+/**
+ * Atomically take one seat of an open session for a student (status becomes `full` when the last seat goes).
+ * Respects waitlist holds and releases the student's own hold.
+ * `extraFilter` narrows which sessions qualify (e.g. same teacher, starts in the future).
+ * Returns the updated session, or null if it is not open, held for someone else or has no free seat.
+ */
+export async function claimSessionSeat(
+  sessionId: Types.ObjectId,
+  studentUserId: Types.ObjectId,
+  mongoSession: ClientSession,
+  extraFilter: Record<string, unknown> = {}
+) {
+  return ClassSessionModel.findOneAndUpdate(
+    {
+      ...extraFilter,
+      _id: sessionId,
+      status: "open",
+      $expr: { $lt: [seatsBookedExpr, capacityExpr] },
+      ...seatHoldFilter(studentUserId, new Date()),
+    },
+    [
+      { $set: { seatsBooked: { $add: [seatsBookedExpr, 1] } } },
+      { $set: { status: { $cond: [{ $gte: ["$seatsBooked", capacityExpr] }, "full", "open"] } } },
+      { $set: { hold: { $cond: [{ $eq: ["$hold.studentUserId", studentUserId] }, null, "$hold"] } } },
+    ],
+    { new: true, session: mongoSession }
+  );
+}
+
+/**
+ * Give a seat back and re-open the session (cancelled sessions stay cancelled).
+ * Returns the updated session so callers can tell whether anyone is still booked.
+ */
+export async function releaseSessionSeat(sessionId: Types.ObjectId, mongoSession: ClientSession) {
+  return ClassSessionModel.findOneAndUpdate(
+    { _id: sessionId, status: { $in: ["open", "booked", "full"] } },
+    [
+      { $set: { seatsBooked: { $max: [0, { $subtract: [seatsBookedExpr, 1] }] } } },
+      { $set: { status: "open" } },
+    ],
+    { new: true, session: mongoSession }
+  );
+}
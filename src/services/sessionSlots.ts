@@ -0,0 +1,132 @@
+import {
+  addLocalDays,
+  compareLocalDates,
+  getZonedParts,
+  isValidTimeZone,
+  localWeekday,
+  zonedWallTimeToUtc,
+  type LocalDate,
+} from "../utils/timezone";
+import { LESSON_DURATIONS, type LessonDuration } from "../models/ClassSession";
+
+export type WeeklyBlock = {
+  weekday?: number | null;
+  startTime?: string | null; // HH:mm
+  endTime?: string | null; // HH:mm
+  timezone?: string | null;
+};
+
+export type OverrideRange = {
+  startAt?: Date | null;
+  endAt?: Date | null;
+  status?: "available" | "blocked" | string | null;
+};
+
+export type Slot = { startAt: Date; endAt: Date };
+
+function isLessonDuration(minutes: number): minutes is LessonDuration {
+  return (LESSON_DURATIONS as readonly number[]).includes(minutes);
+}
+
+/** Lesson length of a session from its start/end, or null if it is not a supported length. */
+export function lessonDurationBetween(startAt: Date, endAt: Date): LessonDuration | null {
+  const minutes = Math.round((endAt.getTime() - startAt.getTime()) / 60000);
+  return isLessonDuration(minutes) ? minutes : null;
+}
+
+function hmToMinutes(hm: string) {
+  const [h, m] = hm.split(":").map((x) => Number(x));
+  return h * 60 + m;
+}
+
+function overlaps(a: Slot, b: { startAt: Date; endAt: Date }) {
+  return a.startAt.getTime() < b.endAt.getTime() && b.startAt.getTime() < a.endAt.getTime();
+}
+
+export function resolveTimeZone(...candidates: (string | null | undefined)[]): string {
+  for (const tz of candidates) {
+    const v = String(tz || "").trim();
+    if (v && isValidTimeZone(v)) return v;
+  }
+  return "UTC";
+}
+
+/**
+ * Expand weekly availability blocks into concrete slots between `from` and `to`.
+ * Block times are wall-clock times in the block's timezone (falling back to the teacher's, then UTC),
+ * so slots keep their local time across DST changes. Wall times that fall in a DST gap are skipped;
+ * wall times that repeat in a DST overlap are generated once (first occurrence).
+ * Override entries are applied afterwards: `available` ranges add one-off slots, `blocked` ranges remove slots.
+ * Consecutive slots in a block are separated by `bufferMinutes`; slots starting before `notBefore`
+ * or overlapping a `busy` range (padded by the buffer on both sides) are dropped.
+ */
+export function buildAvailabilitySlots(opts: {
+  weekly: WeeklyBlock[];
+  overrides: OverrideRange[];
+  from: Date;
+  to: Date;
+  defaultTimezone?: string | null;
+  slotMinutes: number;
+  bufferMinutes?: number;
+  notBefore?: Date;
+  busy?: { startAt: Date; endAt: Date }[];
+}): Slot[] {
+  const { weekly, overrides, from, to, defaultTimezone, slotMinutes } = opts;
+  const bufferMinutes = opts.bufferMinutes ?? 0;
+  const stepMinutes = slotMinutes + bufferMinutes;
+  const slotMs = slotMinutes * 60 * 1000;
+  const bufferMs = bufferMinutes * 60 * 1000;
+  const byStart = new Map<number, Slot>();
+
+  const add = (startAt: Date) => {
+    const endAt = new Date(startAt.getTime() + slotMs);
+    if (startAt < from || endAt > to) return;
+    if (!byStart.has(startAt.getTime())) byStart.set(startAt.getTime(), { startAt, endAt });
+  };
+
+  for (const b of weekly) {
+    if (b.weekday === undefined || b.weekday === null || !b.startTime || !b.endTime) continue;
+    const tz = resolveTimeZone(b.timezone, defaultTimezone);
+    const startMin = hmToMinutes(b.startTime);
+    const endMin = hmToMinutes(b.endTime);
+
+    const lastDay = getZonedParts(to, tz);
+    for (let day: LocalDate = getZonedParts(from, tz); compareLocalDates(day, lastDay) <= 0; day = addLocalDays(day, 1)) {
+      if (localWeekday(day) !== b.weekday) continue;
+      for (let t = startMin; t + slotMinutes <= endMin; t += stepMinutes) {
+        const startAt = zonedWallTimeToUtc(day, t, tz);
+        if (startAt) add(startAt);
+      }
+    }
+  }
+
+  for (const o of overrides) {
+    if (o.status !== "available" || !o.startAt || !o.endAt) continue;
+    const end = new Date(o.endAt).getTime();
+    for (let t = new Date(o.startAt).getTime(); t + slotMs <= end; t += slotMs + bufferMs) add(new Date(t));
+  }
+
+  const blocked = overrides
+    .filter((o) => o.status === "blocked" && o.startAt && o.endAt)
+    .map((o) => ({ startAt: new Date(o.startAt!), endAt: new Date(o.endAt!) }));
+
+  const busy = (opts.busy ?? []).map((b) => ({
+    startAt: new Date(new Date(b.startAt).getTime() - bufferMs),
+    endAt: new Date(new Date(b.endAt).getTime() + bufferMs),
+  }));
+
+  const candidates = Array.from(byStart.values())
+    .filter((slot) => !opts.notBefore || slot.startAt >= opts.notBefore)
+    .filter((slot) => !blocked.some((range) => overlaps(slot, range)))
+    .filter((slot) => !busy.some((range) => overlaps(slot, range)))
+    .sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+
+  // Overlapping blocks/overrides can yield colliding slots; keep the earliest of each collision.
+  const result: Slot[] = [];
+  for (const slot of candidates) {
+    const prev = result[result.length - 1];
+    if (prev && slot.startAt.getTime() < prev.endAt.getTime() + bufferMs) continue;
+    result.push(slot);
+  }
+  return result;
+}
@@ -0,0 +1,139 @@
+import { Types, type ClientSession } from "mongoose";
+import { BookingModel } from "../models/Booking";
+import { ClassSessionModel } from "../models/ClassSession";
+import {
+  computeCancellationRefund,
+  resolveCancellationPolicy,
+  type EffectiveCancellationPolicy,
+  type RefundRule,
+} from "./cancellationPolicy";
+import { getCreditBalance, postCreditTransaction } from "./credits";
+import { claimSessionSeat, releaseSessionSeat } from "./sessionSeats";
+import { markWaitlistBooked } from "./waitlist";
+
+export type BookSessionResult =
+  | { ok: true; booking: any; session: any }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+/**
+ * Book one seat of an open session for a student and spend the credits (call inside a transaction).
+ * Failures come back as an HTTP status + body so routes can return them as-is.
+ */
+export async function bookSessionSeat(opts: {
+  sessionId: Types.ObjectId;
+  studentUserId: Types.ObjectId;
+  seriesId?: Types.ObjectId;
+  mongoSession: ClientSession;
+}): Promise<BookSessionResult> {
+  const { sessionId, studentUserId, mongoSession } = opts;
+  const now = new Date();
+
+  const classSession = await ClassSessionModel.findById(sessionId).session(mongoSession);
+  if (!classSession || classSession.status !== "open") {
+    // Fully booked future sessions can be waitlisted (POST /waitlist)
+    const canJoinWaitlist =
+      !!classSession && ["booked", "full"].includes(classSession.status) && classSession.startAt.getTime() > now.getTime();
+    return { ok: false, status: 409, body: { error: "Session is not available", canJoinWaitlist } };
+  }
+
+  const alreadyBooked = await BookingModel.exists({ sessionId, studentUserId, status: "booked" }).session(mongoSession);
+  if (alreadyBooked) return { ok: false, status: 409, body: { error: "You already booked this session" } };
+
+  const balance = await getCreditBalance(studentUserId, mongoSession);
+  if (balance < classSession.priceCredits) {
+    return { ok: false, status: 402, body: { error: "Not enough credits", balance, required: classSession.priceCredits } };
+  }
+
+  const updated = await claimSessionSeat(sessionId, studentUserId, mongoSession);
+  if (!updated) {
+    const held = classSession.hold && classSession.hold.expiresAt.getTime() > now.getTime();
+    return {
+      ok: false,
+      status: 409,
+      body: { error: held ? "Session is held for a waitlisted student" : "Session is full", canJoinWaitlist: true },
+    };
+  }
+
+  const [booking] = await BookingModel.create(
+    [
+      {
+        sessionId,
+        teacherId: updated.teacherId,
+        studentUserId,
+        status: "booked",
+        bookedAt: now,
+        priceCredits: updated.priceCredits,
+        ...(opts.seriesId ? { seriesId: opts.seriesId } : {}),
+      },
+    ],
+    { session: mongoSession }
+  );
+
+  const tx = await postCreditTransaction(
+    {
+      userId: studentUserId,
+      type: "spend",
+      amount: -updated.priceCredits,
+      related: { bookingId: booking._id, sessionId: updated._id },
+    },
+    mongoSession
+  );
+
+  booking.creditTxId = tx._id;
+  await booking.save({ session: mongoSession });
+  await markWaitlistBooked(studentUserId, sessionId, booking._id, mongoSession);
+
+  return { ok: true, booking, session: updated };
+}
+
+export type StudentCancellation = {
+  refundCredits: number;
+  rule: RefundRule;
+  refundPercent: number;
+  policy: EffectiveCancellationPolicy;
+  // Set when a seat was given back (run offerNextInLine after the transaction commits)
+  reopenedSessionId: Types.ObjectId | null;
+};
+
+/**
+ * Cancel a student's booked lesson (call inside a transaction): refund per the cancellation policy
+ * and give the seat back if the lesson has not started yet.
+ */
+export async function cancelStudentBooking(booking: any, mongoSession: ClientSession, reason = ""): Promise<StudentCancellation> {
+  const now = new Date();
+  const classSession = await ClassSessionModel.findById(booking.sessionId).select("startAt").session(mongoSession);
+  const startAt = classSession?.startAt ?? now;
+  const policy = await resolveCancellationPolicy(booking.teacherId, mongoSession);
+  const refund = computeCancellationRefund(policy, booking.priceCredits, startAt, now);
+
+  booking.status = "cancelled";
+  booking.cancelledAt = now;
+  booking.cancelledBy = "student";
+  if (reason) booking.cancellationReason = reason;
+  booking.refundCredits = refund.refundCredits;
+  booking.refundRule = refund.rule;
+  await booking.save({ session: mongoSession });
+
+  // Give the seat back only if the lesson is still in the future
+  let reopenedSessionId: Types.ObjectId | null = null;
+  if (startAt.getTime() > now.getTime()) {
+    const released = await releaseSessionSeat(booking.sessionId, mongoSession);
+    if (released) reopenedSessionId = booking.sessionId;
+  }
+
+  if (refund.refundCredits > 0) {
+    await postCreditTransaction(
+      {
+        userId: booking.studentUserId,
+        type: "refund",
+        amount: refund.refundCredits,
+        meta: { refundRule: refund.rule, refundPercent: refund.refundPercent },
+        related: { bookingId: booking._id, sessionId: booking.sessionId },
+      },
+      mongoSession,
+      { inheritExpiryFrom: { type: "spend", "related.bookingId": booking._id } }
+    );
+  }
+
+  return { ...refund, policy, reopenedSessionId };
+}
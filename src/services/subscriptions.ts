@@ -0,0 +1,209 @@
+import { Types, type ClientSession } from "mongoose";
+import { env } from "../config/env";
+import { CreditLotModel } from "../models/CreditLot";
+import { CreditTransactionModel } from "../models/CreditTransaction";
+import { SubscriptionModel } from "../models/Subscription";
+import { persistAndNotify } from "../ws/emit";
+import { postCreditTransaction } from "./credits";
+
+/** API shape of a subscription plan. */
+export function planRow(p: any) {
+  return {
+    id: String(p._id),
+    name: p.name,
+    description: p.description || "",
+    creditsPerPeriod: p.creditsPerPeriod,
+    periodMonths: p.periodMonths ?? 1,
+    priceCents: p.priceCents,
+    currency: p.currency,
+    rolloverCap: p.rolloverCap ?? 0,
+  };
+}
+
+/** API shape of a subscription. */
+export function subscriptionRow(s: any) {
+  return {
+    id: String(s._id),
+    planId: String(s.planId),
+    planName: s.planName || "",
+    creditsPerPeriod: s.creditsPerPeriod,
+    periodMonths: s.periodMonths,
+    priceCents: s.priceCents,
+    currency: s.currency,
+    rolloverCap: s.rolloverCap ?? 0,
+    status: s.status,
+    currentPeriodStart: s.currentPeriodStart ?? null,
+    currentPeriodEnd: s.currentPeriodEnd ?? null,
+    cancelAtPeriodEnd: !!s.cancelAtPeriodEnd,
+    pausedAt: s.pausedAt ?? null,
+    cancelledAt: s.cancelledAt ?? null,
+    renewalPending: !!s.pendingPaymentId,
+    renewalAttempts: s.renewalAttempts ?? 0,
+    nextRenewalAttemptAt: s.nextRenewalAttemptAt ?? null,
+    createdAt: s.createdAt,
+  };
+}
+
+/** Same day `months` later (clamped to the end of shorter months, e.g. Jan 31 + 1 = Feb 28/29). */
+export function addBillingPeriod(from: Date, months: number): Date {
+  const d = new Date(from);
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return d;
+}
+
+/** Notification to send once the transaction that settled a subscription payment has committed. */
+export type SubscriptionNotice = {
+  userId: Types.ObjectId;
+  type: "subscription_renewed" | "subscription_payment_failed";
+  payload: Record<string, unknown>;
+};
+
+export async function sendSubscriptionNotice(notice: SubscriptionNotice | null): Promise<void> {
+  if (notice) await persistAndNotify([String(notice.userId)], notice.type, notice.payload);
+}
+
+/**
+ * A subscription payment succeeded and its allowance was granted as `newTxId` (call inside that transaction):
+ * expire earlier allowance credits above the plan's rollover cap and start the paid period.
+ *
+ * The payment may arrive after its checkout expired. The allowance stays granted either way; the period
+ * only starts if no other payment has covered it yet and, for a cancelled subscription, the student has not
+ * started another one since.
+ */
+export async function settleSubscriptionPayment(
+  p: any,
+  newTxId: Types.ObjectId,
+  session: ClientSession
+): Promise<SubscriptionNotice | null> {
+  const sub = await SubscriptionModel.findById(p.subscriptionId).session(session);
+  if (!sub) return null;
+
+  const covered = sub.currentPeriodEnd && p.periodEnd && sub.currentPeriodEnd.getTime() >= p.periodEnd.getTime();
+  const replaced =
+    sub.status === "cancelled" &&
+    (await SubscriptionModel.exists({
+      _id: { $ne: sub._id },
+      userId: sub.userId,
+      status: { $in: ["incomplete", "active", "paused", "past_due"] },
+    }).session(session));
+  if (covered || replaced) {
+    // eslint-disable-next-line no-console
+    console.warn("[subscriptions] late payment granted without starting a period", {
+      paymentId: String(p._id),
+      subscriptionId: String(sub._id),
+      reason: covered ? "period_already_paid" : "subscription_replaced",
+    });
+    return null;
+  }
+
+  await trimRollover(sub, newTxId, session);
+
+  const firstPeriod = sub.status === "incomplete" || !sub.currentPeriodStart;
+  sub.set({
+    // A subscription cancelled while its first checkout was open still gets the period it paid for
+    status: "active",
+    cancelAtPeriodEnd: sub.status === "cancelled" ? true : sub.cancelAtPeriodEnd,
+    cancelledAt: undefined,
+    currentPeriodStart: p.periodStart,
+    currentPeriodEnd: p.periodEnd,
+    pendingPaymentId: null,
+    lastPaymentId: p._id,
+    renewalAttempts: 0,
+    nextRenewalAttemptAt: undefined,
+  });
+  await sub.save({ session });
+
+  return {
+    userId: sub.userId,
+    type: "subscription_renewed",
+    payload: {
+      subscriptionId: String(sub._id),
+      planName: sub.planName,
+      credits: p.credits,
+      periodEnd: p.periodEnd,
+      firstPeriod,
+    },
+  };
+}
+
+// Allowance credits left over from earlier periods carry over up to `rolloverCap`; the newest are kept.
+async function trimRollover(sub: any, newTxId: Types.ObjectId, session: ClientSession): Promise<void> {
+  const grants = (await CreditTransactionModel.find({
+    type: "purchase",
+    "related.subscriptionId": sub._id,
+    _id: { $ne: newTxId },
+  })
+    .select("_id")
+    .session(session)
+    .lean()) as { _id: Types.ObjectId }[];
+  if (!grants.length) return;
+
+  const lots = (await CreditLotModel.find({ sourceTxId: { $in: grants.map((g) => g._id) }, remaining: { $gt: 0 } })
+    .sort({ createdAt: -1 })
+    .select("_id remaining")
+    .session(session)
+    .lean()) as unknown as { _id: Types.ObjectId; remaining: number }[];
+
+  let keep = Number(sub.rolloverCap ?? 0);
+  const now = new Date();
+  for (const lot of lots) {
+    const kept = Math.min(keep, lot.remaining);
+    keep -= kept;
+    const excess = lot.remaining - kept;
+    if (excess <= 0) continue;
+    await postCreditTransaction(
+      {
+        userId: sub.userId,
+        type: "expire",
+        amount: -excess,
+        meta: { reason: "rollover_cap" },
+        related: { lotId: lot._id, subscriptionId: sub._id },
+      },
+      session,
+      { lotId: lot._id }
+    );
+    if (kept === 0) await CreditLotModel.updateOne({ _id: lot._id }, { $set: { expiredAt: now } }, { session });
+  }
+}
+
+/**
+ * A subscription payment failed (call inside a transaction). A first payment cancels the subscription;
+ * a renewal is retried every SUBSCRIPTION_RETRY_HOURS until SUBSCRIPTION_MAX_RENEWAL_ATTEMPTS, then cancelled.
+ */
+export async function failSubscriptionPayment(
+  p: any,
+  session: ClientSession,
+  now = new Date()
+): Promise<SubscriptionNotice | null> {
+  const sub = await SubscriptionModel.findOne({ _id: p.subscriptionId, pendingPaymentId: p._id }).session(session);
+  if (!sub) return null;
+
+  const attempts = Number(sub.renewalAttempts ?? 0) + 1;
+  const giveUp = sub.status === "incomplete" || sub.status === "cancelled" || attempts >= env.SUBSCRIPTION_MAX_RENEWAL_ATTEMPTS;
+  sub.set({ pendingPaymentId: null, renewalAttempts: attempts });
+  if (giveUp) {
+    sub.set({ status: "cancelled", cancelledAt: sub.cancelledAt ?? now, cancelReason: sub.cancelReason || "payment_failed" });
+  } else {
+    sub.set({
+      status: "past_due",
+      nextRenewalAttemptAt: new Date(now.getTime() + env.SUBSCRIPTION_RETRY_HOURS * 60 * 60 * 1000),
+    });
+  }
+  await sub.save({ session });
+
+  return {
+    userId: sub.userId,
+    type: "subscription_payment_failed",
+    payload: {
+      subscriptionId: String(sub._id),
+      planName: sub.planName,
+      reason: p.failureReason || "payment_failed",
+      cancelled: giveUp,
+      nextAttemptAt: giveUp ? null : sub.nextRenewalAttemptAt,
+    },
+  };
+}
@@ -0,0 +1,280 @@
+import mongoose, { Types, type ClientSession } from "mongoose";
+import { env } from "../config/env";
+import { BookingModel } from "../models/Booking";
+import { ClassSessionModel } from "../models/ClassSession";
+import { StudentProfileModel } from "../models/StudentProfile";
+import { TeacherEarningModel } from "../models/TeacherEarning";
+import { TeacherPayoutModel } from "../models/TeacherPayout";
+import { TeacherProfileModel } from "../models/TeacherProfile";
+import { zonedWallTimeToUtc } from "../utils/timezone";
+import { resolveTimeZone } from "./sessionSlots";
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Split a lesson price into the platform commission and the teacher's net share (in credits). */
+export function splitCommission(grossCredits: number, commissionPercent = env.TEACHER_COMMISSION_PERCENT) {
+  const commissionCredits = round2((grossCredits * commissionPercent) / 100);
+  return { commissionPercent, commissionCredits, netCredits: round2(grossCredits - commissionCredits) };
+}
+
+/** Payout value of `credits` in PAYOUT_CURRENCY cents. */
+export function payoutCents(credits: number): number {
+  return Math.max(0, Math.round(credits * env.TEACHER_PAYOUT_CENTS_PER_CREDIT));
+}
+
+/** API shape of an earnings entry. */
+export function earningRow(e: any) {
+  return {
+    id: String(e._id),
+    type: e.type,
+    bookingId: String(e.bookingId),
+    sessionId: e.sessionId ? String(e.sessionId) : null,
+    lessonStartAt: e.lessonStartAt ?? null,
+    grossCredits: e.grossCredits,
+    commissionPercent: e.commissionPercent,
+    commissionCredits: e.commissionCredits,
+    netCredits: e.netCredits,
+    reason: e.reason || "",
+    payoutId: e.payoutId ? String(e.payoutId) : null,
+    createdAt: e.createdAt,
+  };
+}
+
+/** API shape of a payout batch. */
+export function payoutRow(p: any) {
+  return {
+    id: String(p._id),
+    teacherId: String(p.teacherId),
+    status: p.status,
+    periodEnd: p.periodEnd,
+    earningsCount: p.earningsCount,
+    credits: p.credits,
+    amountCents: p.amountCents,
+    currency: p.currency,
+    reference: p.reference || "",
+    createdAt: p.createdAt,
+    paidAt: p.paidAt ?? null,
+  };
+}
+
+/**
+ * Credit the teacher for a completed booking: price minus TEACHER_COMMISSION_PERCENT. Call inside the
+ * transaction that completes the booking. Safe to call more than once (one lesson entry per booking).
+ */
+export async function recordLessonEarning(bookingId: Types.ObjectId, session: ClientSession): Promise<void> {
+  const booking = (await BookingModel.findById(bookingId)
+    .select("teacherId sessionId studentUserId priceCredits status")
+    .session(session)
+    .lean()) as any | null;
+  if (!booking || booking.status !== "completed" || !(booking.priceCredits > 0)) return;
+  if (await TeacherEarningModel.exists({ bookingId, type: "lesson" }).session(session)) return;
+  const classSession = (await ClassSessionModel.findById(booking.sessionId).select("startAt").session(session).lean()) as
+    | any
+    | null;
+  const split = splitCommission(booking.priceCredits);
+
+  await TeacherEarningModel.create(
+    [
+      {
+        teacherId: booking.teacherId,
+        type: "lesson",
+        bookingId,
+        sessionId: booking.sessionId,
+        studentUserId: booking.studentUserId,
+        lessonStartAt: classSession?.startAt,
+        grossCredits: booking.priceCredits,
+        ...split,
+      },
+    ],
+    { session }
+  );
+  await TeacherProfileModel.updateOne(
+    { _id: booking.teacherId },
+    { $inc: { "stats.earnedTotal": split.netCredits } },
+    { session }
+  );
+}
+
+/**
+ * Record a negative `reversal` for `refundCredits` of a lesson the teacher was already credited for
+ * (call inside the refund transaction). The commission is reversed in the same proportion.
+ * Returns the reversal, or null if the booking has no lesson entry.
+ */
+export async function reverseLessonEarning(
+  bookingId: Types.ObjectId,
+  refundCredits: number,
+  reason: string,
+  session: ClientSession
+) {
+  const lesson = (await TeacherEarningModel.findOne({ bookingId, type: "lesson" }).session(session).lean()) as any | null;
+  if (!lesson) return null;
+  const reversed = await TeacherEarningModel.aggregate([
+    { $match: { bookingId, type: "reversal" } },
+    { $group: { _id: null, gross: { $sum: "$grossCredits" } } },
+  ]).session(session);
+  const reversible = lesson.grossCredits + Number(reversed[0]?.gross ?? 0);
+  const gross = Math.min(refundCredits, reversible);
+  if (gross <= 0) return null;
+
+  const split = splitCommission(gross, lesson.commissionPercent);
+  const [reversal] = await TeacherEarningModel.create(
+    [
+      {
+        teacherId: lesson.teacherId,
+        type: "reversal",
+        bookingId,
+        sessionId: lesson.sessionId,
+        studentUserId: lesson.studentUserId,
+        lessonStartAt: lesson.lessonStartAt,
+        grossCredits: -gross,
+        commissionPercent: split.commissionPercent,
+        commissionCredits: -split.commissionCredits,
+        netCredits: -split.netCredits,
+        reason,
+      },
+    ],
+    { session }
+  );
+  await TeacherProfileModel.updateOne(
+    { _id: lesson.teacherId },
+    { $inc: { "stats.earnedTotal": -split.netCredits } },
+    { session }
+  );
+  return reversal;
+}
+
+/**
+ * Put every teacher's unpaid earnings from before `periodEnd` into a pending payout batch.
+ * Teachers whose unpaid total is not positive (e.g. reversals after a payout) carry it forward.
+ */
+export async function createPayoutBatches(periodEnd: Date, adminUserId: Types.ObjectId) {
+  const teacherIds = (await TeacherEarningModel.distinct("teacherId", {
+    payoutId: null,
+    createdAt: { $lt: periodEnd },
+  })) as Types.ObjectId[];
+
+  const payouts: any[] = [];
+  for (const teacherId of teacherIds) {
+    const mongoSession = await mongoose.startSession();
+    try {
+      await mongoSession.withTransaction(async () => {
+        const earnings = (await TeacherEarningModel.find({ teacherId, payoutId: null, createdAt: { $lt: periodEnd } })
+          .select("_id netCredits")
+          .session(mongoSession)
+          .lean()) as unknown as { _id: Types.ObjectId; netCredits: number }[];
+        const credits = round2(earnings.reduce((sum, e) => sum + e.netCredits, 0));
+        if (!earnings.length || credits <= 0) return;
+
+        const [payout] = await TeacherPayoutModel.create(
+          [
+            {
+              teacherId,
+              status: "pending",
+              periodEnd,
+              earningsCount: earnings.length,
+              credits,
+              amountCents: payoutCents(credits),
+              currency: env.PAYOUT_CURRENCY,
+              createdByUserId: adminUserId,
+            },
+          ],
+          { session: mongoSession }
+        );
+        await TeacherEarningModel.updateMany(
+          { _id: { $in: earnings.map((e) => e._id) }, payoutId: null },
+          { $set: { payoutId: payout._id } },
+          { session: mongoSession }
+        );
+        payouts.push(payout.toObject());
+      });
+    } finally {
+      mongoSession.endSession();
+    }
+  }
+  return payouts;
+}
+
+export type TeacherStatement = NonNullable<Awaited<ReturnType<typeof buildStatement>>>;
+
+/**
+ * Earnings statement for one calendar month ("YYYY-MM") in the teacher's timezone, with one line per
+ * ledger entry. Returns null for an invalid month or unknown teacher.
+ */
+export async function buildStatement(teacherId: Types.ObjectId, month: string) {
+  const m = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month);
+  if (!m) return null;
+  const teacher = (await TeacherProfileModel.findById(teacherId).select("name timezone").lean()) as any | null;
+  if (!teacher) return null;
+
+  const timeZone = resolveTimeZone(teacher.timezone);
+  const year = Number(m[1]);
+  const mon = Number(m[2]);
+  const next = mon === 12 ? { year: year + 1, month: 1, day: 1 } : { year, month: mon + 1, day: 1 };
+  const from = zonedWallTimeToUtc({ year, month: mon, day: 1 }, 0, timeZone) ?? new Date(Date.UTC(year, mon - 1, 1));
+  const to = zonedWallTimeToUtc(next, 0, timeZone) ?? new Date(Date.UTC(next.year, next.month - 1, 1));
+
+  const earnings = (await TeacherEarningModel.find({ teacherId, createdAt: { $gte: from, $lt: to } })
+    .sort({ createdAt: 1 })
+    .lean()) as any[];
+  const students = (await StudentProfileModel.find({ userId: { $in: earnings.map((e) => e.studentUserId) } })
+    .select("userId nickname")
+    .lean()) as any[];
+  const nicknameById = new Map(students.map((s) => [String(s.userId), s.nickname || ""]));
+
+  const totals = { lessons: 0, reversals: 0, grossCredits: 0, commissionCredits: 0, netCredits: 0 };
+  const lines = earnings.map((e) => {
+    if (e.type === "lesson") totals.lessons++;
+    else totals.reversals++;
+    totals.grossCredits += e.grossCredits;
+    totals.commissionCredits += e.commissionCredits;
+    totals.netCredits += e.netCredits;
+    return { ...earningRow(e), student: nicknameById.get(String(e.studentUserId)) || "" };
+  });
+  totals.grossCredits = round2(totals.grossCredits);
+  totals.commissionCredits = round2(totals.commissionCredits);
+  totals.netCredits = round2(totals.netCredits);
+
+  return {
+    teacherId: String(teacherId),
+    teacherName: teacher.name || "",
+    month,
+    timeZone,
+    from,
+    to,
+    lines,
+    totals: { ...totals, amountCents: payoutCents(totals.netCredits), currency: env.PAYOUT_CURRENCY },
+  };
+}
+
+// Text that a spreadsheet would read as a formula (e.g. a student nickname "=HYPERLINK(...)") is prefixed
+// with ' and quoted. Numbers are left alone so negative amounts stay numeric.
+function csvField(v: unknown): string {
+  let s = v instanceof Date ? v.toISOString() : String(v ?? "");
+  const formula = typeof v === "string" && /^[=+\-@\t\r]/.test(s);
+  if (formula) s = `'${s}`;
+  return formula || /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** CSV download of a statement: one row per line, then a totals row. */
+export function statementCsv(statement: TeacherStatement): string {
+  const rows: unknown[][] = [
+    ["date", "type", "lesson_start", "booking_id", "student", "gross_credits", "commission_credits", "net_credits", "payout_id", "reason"],
+  ];
+  for (const l of statement.lines) {
+    rows.push([
+      l.createdAt,
+      l.type,
+      l.lessonStartAt,
+      l.bookingId,
+      l.student,
+      l.grossCredits,
+      l.commissionCredits,
+      l.netCredits,
+      l.payoutId,
+      l.reason,
+    ]);
+  }
+  const t = statement.totals;
+  rows.push(["total", "", "", "", "", t.grossCredits, t.commissionCredits, t.netCredits, "", `${t.amountCents} ${t.currency}`]);
+  return rows.map((r) => r.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,149 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { env } from "../config/env";
+import { UserModel } from "../models/User";
+import { decryptString, encryptString } from "../utils/crypto";
+import { generateTotpSecret, otpauthUri, verifyTotp } from "../utils/totp";
+
+const BACKUP_CODE_COUNT = 10;
+const CHALLENGE_KIND = "2fa_challenge";
+
+// login: password accepted, second factor pending; setup: an admin must enroll before signing in
+export type ChallengePurpose = "login" | "setup";
+
+/** Roles that cannot sign in without a second factor. */
+export function twoFactorRequired(role: string): boolean {
+  return role === "admin";
+}
+
+/**
+ * Short-lived token proving the password step succeeded. It is not an access token:
+ * it has no role or session and verifyAuthToken refuses it.
+ */
+export function signTwoFactorChallenge(
+  user: { _id: unknown; tokenVersion?: number | null },
+  purpose: ChallengePurpose
+): string {
+  return jwt.sign(
+    { sub: String(user._id), kind: CHALLENGE_KIND, purpose, tv: Number(user.tokenVersion ?? 0) },
+    env.JWT_SECRET,
+    { expiresIn: env.TWO_FACTOR_CHALLENGE_MINUTES * 60 }
+  );
+}
+
+/** The user a challenge token was issued to, or null if it is invalid, expired or outdated. */
+export async function verifyTwoFactorChallenge(token: string, purpose: ChallengePurpose) {
+  let decoded: any;
+  try {
+    decoded = jwt.verify(token, env.JWT_SECRET);
+  } catch {
+    return null;
+  }
+  if (decoded?.kind !== CHALLENGE_KIND || decoded?.purpose !== purpose || !decoded?.sub) return null;
+  const user = await UserModel.findById(String(decoded.sub));
+  if (!user || user.status !== "active" || Number(user.tokenVersion ?? 0) !== Number(decoded.tv ?? 0)) return null;
+  return user;
+}
+
+function hashBackupCode(code: string): string {
+  const normalized = code.trim().toLowerCase().replace(/[\s-]/g, "");
+  return crypto.createHash("sha256").update(`${normalized}:${env.EMAIL_CODE_PEPPER}`).digest("hex");
+}
+
+function generateBackupCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashBackupCode) };
+}
+
+/**
+ * Start (or restart) enrollment: a new secret is kept as pending until confirmed with a code.
+ * Throws if TOKEN_ENCRYPTION_KEY is not set.
+ */
+export async function beginTwoFactorEnrollment(user: { _id: Types.ObjectId; email: string }) {
+  const secret = generateTotpSecret();
+  await UserModel.updateOne({ _id: user._id }, { $set: { "twoFactor.pendingSecretEncrypted": encryptString(secret) } });
+  return { secret, otpauthUri: otpauthUri({ issuer: env.TOTP_ISSUER, account: user.email, secret }) };
+}
+
+/** Confirm enrollment with a code from the app. Returns the backup codes (shown once) or null for a wrong code. */
+export async function confirmTwoFactorEnrollment(userId: Types.ObjectId, code: string): Promise<string[] | null> {
+  const user = (await UserModel.findById(userId).select("twoFactor").lean()) as any | null;
+  const pending = user?.twoFactor?.pendingSecretEncrypted;
+  if (!pending) return null;
+  const counter = verifyTotp(decryptString(pending), code);
+  if (counter === null) return null;
+
+  const { codes, hashes } = generateBackupCodes();
+  const res = await UserModel.updateOne(
+    { _id: userId, "twoFactor.pendingSecretEncrypted": pending },
+    {
+      $set: {
+        "twoFactor.enabled": true,
+        "twoFactor.secretEncrypted": pending,
+        "twoFactor.pendingSecretEncrypted": "",
+        "twoFactor.backupCodeHashes": hashes,
+        "twoFactor.lastUsedCounter": counter,
+        "twoFactor.enabledAt": new Date(),
+      },
+    }
+  );
+  return res.modifiedCount === 1 ? codes : null;
+}
+
+/**
+ * Check a second factor: a TOTP code (each time step is accepted once) or an unused backup code
+ * (removed when used). Returns which one matched, or null.
+ */
+export async function verifySecondFactor(
+  userId: Types.ObjectId,
+  input: { code?: string; backupCode?: string }
+): Promise<"totp" | "backup_code" | null> {
+  const user = (await UserModel.findById(userId).select("twoFactor").lean()) as any | null;
+  if (!user?.twoFactor?.enabled || !user.twoFactor.secretEncrypted) return null;
+
+  if (input.code) {
+    const counter = verifyTotp(decryptString(user.twoFactor.secretEncrypted), input.code);
+    if (counter === null) return null;
+    const res = await UserModel.updateOne(
+      { _id: userId, "twoFactor.lastUsedCounter": { $lt: counter } },
+      { $set: { "twoFactor.lastUsedCounter": counter } }
+    );
+    return res.modifiedCount === 1 ? "totp" : null;
+  }
+  if (input.backupCode) {
+    const hash = hashBackupCode(input.backupCode);
+    const res = await UserModel.updateOne(
+      { _id: userId, "twoFactor.backupCodeHashes": hash },
+      { $pull: { "twoFactor.backupCodeHashes": hash } }
+    );
+    return res.modifiedCount === 1 ? "backup_code" : null;
+  }
+  return null;
+}
+
+/** Replace the backup codes (the old ones stop working). */
+export async function regenerateBackupCodes(userId: Types.ObjectId): Promise<string[]> {
+  const { codes, hashes } = generateBackupCodes();
+  await UserModel.updateOne({ _id: userId }, { $set: { "twoFactor.backupCodeHashes": hashes } });
+  return codes;
+}
+
+export async function disableTwoFactor(userId: Types.ObjectId): Promise<void> {
+  await UserModel.updateOne(
+    { _id: userId },
+    {
+      $set: {
+        "twoFactor.enabled": false,
+        "twoFactor.secretEncrypted": "",
+        "twoFactor.pendingSecretEncrypted": "",
+        "twoFactor.backupCodeHashes": [],
+        "twoFactor.lastUsedCounter": 0,
+      },
+      $unset: { "twoFactor.enabledAt": 1 },
+    }
+  );
+}
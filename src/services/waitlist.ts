@@ -0,0 +1,118 @@
+import { Types, type ClientSession } from "mongoose";
+import { env } from "../config/env";
+import { BookingModel } from "../models/Booking";
+import { ClassSessionModel } from "../models/ClassSession";
+import { WaitlistEntryModel } from "../models/WaitlistEntry";
+import { persistAndNotify } from "../ws/emit";
+
+type OfferableSession = {
+  _id: Types.ObjectId;
+  teacherId: Types.ObjectId;
+  startAt: Date;
+  endAt: Date;
+  capacity?: number;
+  seatsBooked?: number;
+  hold?: { expiresAt?: Date } | null;
+};
+
+/**
+ * Offer a freed seat of `sessionId` to the first student in line: waitlisted for this session, or for
+ * a teacher time range that contains it. The student gets an exclusive hold for WAITLIST_HOLD_MINUTES
+ * (never past the lesson start) and a `waitlist_offer` notification.
+ * Returns true if an offer was made.
+ */
+export async function offerNextInLine(sessionId: Types.ObjectId | string, now = new Date()): Promise<boolean> {
+  const session = (await ClassSessionModel.findOne({ _id: sessionId, status: "open", startAt: { $gt: now } })
+    .select("teacherId startAt endAt capacity seatsBooked hold")
+    .lean()) as OfferableSession | null;
+  if (!session) return false;
+  if (session.hold?.expiresAt && new Date(session.hold.expiresAt).getTime() > now.getTime()) return false;
+
+  const bookedStudentIds = await BookingModel.distinct("studentUserId", { sessionId: session._id, status: "booked" });
+  const skipped: Types.ObjectId[] = [];
+
+  for (;;) {
+    const candidate = (await WaitlistEntryModel.findOne({
+      _id: { $nin: skipped },
+      status: "waiting",
+      studentUserId: { $nin: bookedStudentIds },
+      $or: [
+        { sessionId: session._id },
+        { sessionId: null, teacherId: session.teacherId, from: { $lte: session.startAt }, to: { $gte: session.endAt } },
+      ],
+    })
+      .sort({ createdAt: 1 })
+      .select("_id studentUserId")
+      .lean()) as { _id: Types.ObjectId; studentUserId: Types.ObjectId } | null;
+    if (!candidate) return false;
+
+    const expiresAt = new Date(
+      Math.min(now.getTime() + env.WAITLIST_HOLD_MINUTES * 60 * 1000, new Date(session.startAt).getTime())
+    );
+    const entry = await WaitlistEntryModel.findOneAndUpdate(
+      { _id: candidate._id, status: "waiting" },
+      { $set: { status: "offered", offer: { sessionId: session._id, offeredAt: now, expiresAt } } },
+      { new: true }
+    ).lean();
+    if (!entry) {
+      // Taken or cancelled meanwhile
+      skipped.push(candidate._id);
+      continue;
+    }
+
+    const held = await ClassSessionModel.updateOne(
+      { _id: session._id, status: "open", $or: [{ hold: null }, { "hold.expiresAt": { $lte: now } }] },
+      { $set: { hold: { studentUserId: candidate.studentUserId, waitlistEntryId: candidate._id, expiresAt } } }
+    );
+    if (held.modifiedCount !== 1) {
+      // Someone else got there first (seat taken or another hold): put the student back in line.
+      await WaitlistEntryModel.updateOne(
+        { _id: candidate._id, status: "offered" },
+        { $set: { status: "waiting", offer: null } }
+      );
+      return false;
+    }
+
+    await persistAndNotify([String(candidate.studentUserId)], "waitlist_offer", {
+      waitlistEntryId: String(candidate._id),
+      sessionId: String(session._id),
+      teacherId: String(session.teacherId),
+      startAt: session.startAt,
+      endAt: session.endAt,
+      expiresAt,
+    });
+    return true;
+  }
+}
+
+/**
+ * Drop the hold a waitlist entry has on a session (if it still has it).
+ * Returns true if the hold was removed, i.e. the seat can be offered to the next student.
+ */
+export async function releaseWaitlistHold(sessionId: Types.ObjectId, entryId: Types.ObjectId): Promise<boolean> {
+  const res = await ClassSessionModel.updateOne(
+    { _id: sessionId, "hold.waitlistEntryId": entryId },
+    { $set: { hold: null } }
+  );
+  return res.modifiedCount === 1;
+}
+
+/**
+ * Close the student's waitlist entries that the new booking satisfies (inside the booking transaction).
+ */
+export async function markWaitlistBooked(
+  studentUserId: Types.ObjectId,
+  sessionId: Types.ObjectId,
+  bookingId: Types.ObjectId,
+  mongoSession: ClientSession
+): Promise<void> {
+  await WaitlistEntryModel.updateMany(
+    {
+      studentUserId,
+      status: { $in: ["waiting", "offered"] },
+      $or: [{ sessionId }, { "offer.sessionId": sessionId }],
+    },
+    { $set: { status: "booked", bookingId } },
+    { session: mongoSession }
+  );
+}
@@ -4,6 +4,8 @@ declare global {
   namespace Express {
     interface Request {
       user?: AuthUser;
+      // Unparsed JSON body (payment webhook signatures are computed over it)
+      rawBody?: Buffer;
     }
   }
 }
@@ -0,0 +1,103 @@
+// IANA timezone helpers built on Intl (no external tz database needed).
+
+export type LocalDate = { year: number; month: number; day: number };
+
+export type ZonedParts = LocalDate & {
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0..6 (Sun..Sat)
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatterCache.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = formatterFor(timeZone).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const year = get("year");
+  const month = get("month");
+  const day = get("day");
+  return {
+    year,
+    month,
+    day,
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+  };
+}
+
+/** Offset of `timeZone` from UTC at the given instant, in minutes (e.g. +120 for Madrid in summer). */
+export function timeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
+/** Calendar date `days` after the given local date. */
+export function addLocalDays(d: LocalDate, days: number): LocalDate {
+  const x = new Date(Date.UTC(d.year, d.month - 1, d.day + days));
+  return { year: x.getUTCFullYear(), month: x.getUTCMonth() + 1, day: x.getUTCDate() };
+}
+
+export function localWeekday(d: LocalDate): number {
+  return new Date(Date.UTC(d.year, d.month - 1, d.day)).getUTCDay();
+}
+
+export function compareLocalDates(a: LocalDate, b: LocalDate): number {
+  return Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day);
+}
+
+/**
+ * Convert a wall-clock time (local date + minutes since local midnight) in `timeZone` to a UTC instant.
+ * - DST gap (the wall time never happens, e.g. 02:30 on spring-forward day): returns null.
+ * - DST overlap (the wall time happens twice on fall-back day): returns the earlier instant.
+ */
+export function zonedWallTimeToUtc(d: LocalDate, minutesOfDay: number, timeZone: string): Date | null {
+  const wallMs = Date.UTC(d.year, d.month - 1, d.day, 0, minutesOfDay);
+  const dayMs = 24 * 60 * 60 * 1000;
+  // At most one transition happens within +/- one day, so the offsets on either side cover every candidate.
+  const offsets = new Set([
+    timeZoneOffsetMinutes(new Date(wallMs - dayMs), timeZone),
+    timeZoneOffsetMinutes(new Date(wallMs + dayMs), timeZone),
+  ]);
+
+  const matches: number[] = [];
+  for (const offset of offsets) {
+    const candidate = wallMs - offset * 60000;
+    const p = getZonedParts(new Date(candidate), timeZone);
+    if (Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) === wallMs) matches.push(candidate);
+  }
+  if (!matches.length) return null;
+  return new Date(Math.min(...matches));
+}
@@ -0,0 +1,85 @@
+import crypto from "crypto";
+
+// RFC 6238 TOTP (SHA-1, 6 digits, 30s steps), the defaults every authenticator app supports.
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/g, "").replace(/\s+/g, "");
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const ch of clean) {
+    const idx = BASE32_ALPHABET.indexOf(ch);
+    if (idx === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+/** New random secret (160 bits, base32) for an authenticator app. */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function totpCounter(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / STEP_SECONDS);
+}
+
+export function totpCode(secret: string, counter: number): string {
+  const msg = Buffer.alloc(8);
+  msg.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(msg).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return String(binary).padStart(DIGITS, "0");
+}
+
+/**
+ * Check a code against the current time step and `window` steps either side (clock drift).
+ * Returns the matching counter (store it to refuse replays) or null.
+ */
+export function verifyTotp(secret: string, code: string, now: Date = new Date(), window = 1): number | null {
+  if (!/^\d{6}$/.test(code)) return null;
+  const current = totpCounter(now);
+  for (let c = current - window; c <= current + window; c++) {
+    const expected = totpCode(secret, c);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) return c;
+  }
+  return null;
+}
+
+/** otpauth:// URI for QR codes (Google Authenticator key URI format). */
+export function otpauthUri(opts: { issuer: string; account: string; secret: string }): string {
+  const label = encodeURIComponent(`${opts.issuer}:${opts.account}`);
+  const params = new URLSearchParams({
+    secret: opts.secret,
+    issuer: opts.issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -1,8 +1,7 @@
 import type { Server as HttpServer } from "http";
 import { parse as parseUrl } from "url";
-import jwt from "jsonwebtoken";
 import { WebSocketServer, type WebSocket } from "ws";
-import { env } from "../config/env";
+import { verifyAuthToken } from "../middleware/auth";
 import type { UserRole } from "../models/User";
 
 const WS_PATH = "/ws";
@@ -16,14 +15,10 @@ function getTokenFromRequest(url: string): string | null {
   return typeof token === "string" ? token : null;
 }
 
-function verifyToken(token: string): { userId: string; role: UserRole; email: string } | null {
+async function verifyToken(token: string): Promise<{ userId: string; role: UserRole; email: string } | null> {
   try {
-    const decoded = jwt.verify(token, env.JWT_SECRET) as { sub?: string; role?: UserRole; email?: string };
-    const userId = String(decoded?.sub || "");
-    const role = decoded?.role;
-    const email = String(decoded?.email || "");
-    if (!userId || !role || !email) return null;
-    return { userId, role, email };
+    const user = await verifyAuthToken(token);
+    return user ? { userId: user.id, role: user.role, email: user.email } : null;
   } catch {
     return null;
   }
@@ -65,15 +60,16 @@ export function attachWsToServer(server: HttpServer): void {
       socket.destroy();
       return;
     }
-    const user = verifyToken(token);
-    if (!user) {
-      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
-      socket.destroy();
-      return;
-    }
+    void verifyToken(token).then((user) => {
+      if (!user) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
 
-    wss.handleUpgrade(request, socket, head, (ws) => {
-      wss.emit("connection", ws, request, user);
+      wss.handleUpgrade(request, socket, head, (ws) => {
+        wss.emit("connection", ws, request, user);
+      });
     });
   });
 